@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { resultsToCsv, runBatch } from './batch';
+import { countCells, stepLife } from './cpuLife';
+import { ToroidalLife } from './life';
+import { parseRule } from './rules';
+
+describe('runBatch', () => {
+  it('records the population over time, including through skipped cycles', async () => {
+    const spec = {
+      rules: ['B3/S23'],
+      sizes: [{ width: 16, height: 8 }],
+      topologies: ['klein' as const],
+      seeds: [1, 2, 3],
+      density: 0.3,
+      generations: 20000,
+      cpu: true,
+      sampleInterval: 7,
+    };
+    const results = await runBatch(undefined, spec);
+    expect(results).toHaveLength(3);
+    for (const result of results) {
+      // The same soup as the main page shows for the seed, run step by step.
+      const life = new ToroidalLife(undefined, 16, 8, { cpu: true, seed: result.seed });
+      life.setSeed(result.seed);
+      life.setRandom(spec.density);
+      let cells = life.cellStateArray.slice();
+      let next = new Uint32Array(cells.length);
+      const rule = parseRule('B3/S23');
+      const expected = [countCells(cells, rule, false).population];
+      for (let step = 1; step <= spec.generations; step++) {
+        const { population } = stepLife(cells, next, 16, 8, rule, 'klein');
+        [cells, next] = [next, cells];
+        if (step % spec.sampleInterval === 0) {
+          expected.push(population);
+        }
+      }
+      expect(result.populations).toEqual(expected);
+      expect(result.population).toBe(countCells(cells, rule, false).population);
+    }
+    // Small grids end up in a cycle long before 20000 generations.
+    expect(results.some((result) => result.period !== null)).toBe(true);
+  });
+});
+
+describe('resultsToCsv', () => {
+  it('leaves missing values empty', () => {
+    const csv = resultsToCsv([{
+      rule: 'B3/S23',
+      width: 16,
+      height: 8,
+      topology: 'klein',
+      seed: 1,
+      generations: 10,
+      population: null,
+      births: null,
+      deaths: null,
+      hash: '',
+      cycleStart: null,
+      period: null,
+      milliseconds: 5,
+      populations: [],
+    }]);
+    expect(csv.split('\n')[1]).toBe('B3/S23,16,8,klein,1,10,,,,,,,5');
+  });
+});
@@ -0,0 +1,167 @@
+/** Batch experiments: runs the Life engine on every combination of some rules,
+ * grid sizes, topologies and seeds, without drawing anything, and collects
+ * the population over time and the cycle of each run. Used by batch.html (see
+ * batchMain.ts), which also makes runBatch available in the browser console
+ * for scripting. */
+
+import { ToroidalLife } from './life';
+import { type Topology } from './topology';
+
+/** What to run. Each combination of rule, size, topology and seed is run
+ * once, starting from a random grid. */
+export type BatchSpec = {
+  rules: string[];
+  sizes: { width: number; height: number }[];
+  topologies: Topology[];
+  seeds: number[];
+  density: number; // Fraction of cells that are initially alive
+  generations: number; // Number of generations to run each grid for
+  cpu?: boolean; // Runs the simulation on the CPU instead of the GPU
+  // The population is recorded every this many generations (see
+  // BatchResult). Defaults to 1.
+  sampleInterval?: number;
+};
+
+/** The outcome of one run. The cycle fields are null if the grid didn't
+ * become periodic (or the period was too long to detect), and the statistics
+ * are null if they weren't available. */
+export type BatchResult = {
+  rule: string;
+  width: number;
+  height: number;
+  topology: Topology;
+  seed: number;
+  generations: number;
+  population: number | null;
+  births: number | null;
+  deaths: number | null;
+  hash: string;
+  cycleStart: number | null;
+  period: number | null;
+  milliseconds: number;
+  // The population at generations 0, sampleInterval, 2 * sampleInterval and
+  // so on. This is only in the JSON output, not the CSV.
+  populations: (number | null)[];
+};
+
+const CSV_COLUMNS: (keyof BatchResult)[] = [
+  'rule', 'width', 'height', 'topology', 'seed', 'generations', 'population',
+  'births', 'deaths', 'hash', 'cycleStart', 'period', 'milliseconds',
+];
+
+/** Returns the number of runs a spec describes. */
+export function batchSize(spec: BatchSpec): number {
+  return spec.rules.length * spec.sizes.length * spec.topologies.length * spec.seeds.length;
+}
+
+/** Runs all the combinations in the spec, one after another, calling
+ * `onResult` as each one finishes. Stops early (returning the results so far)
+ * if `signal` is aborted. Throws an Error if a rule or size is invalid. Without
+ * a device, `cpu` must be set in the spec. */
+export async function runBatch(
+  device: GPUDevice | undefined,
+  spec: BatchSpec,
+  { signal, onResult }: { signal?: AbortSignal; onResult?: (result: BatchResult) => void } = {},
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  for (const rule of spec.rules) {
+    for (const { width, height } of spec.sizes) {
+      for (const topology of spec.topologies) {
+        for (const seed of spec.seeds) {
+          if (signal?.aborted) {
+            return results;
+          }
+          const result = await runOne(device, spec, rule, width, height, topology, seed, signal);
+          if (result) {
+            results.push(result);
+            onResult?.(result);
+          }
+        }
+      }
+    }
+  }
+  return results;
+}
+
+/** Runs one grid. Returns undefined if it was aborted. */
+async function runOne(
+  device: GPUDevice | undefined,
+  spec: BatchSpec,
+  rule: string,
+  width: number,
+  height: number,
+  topology: Topology,
+  seed: number,
+  signal: AbortSignal | undefined,
+): Promise<BatchResult | undefined> {
+  const start = performance.now();
+  const life = new ToroidalLife(device, width, height, {
+    rule,
+    topology,
+    cpu: spec.cpu,
+    seed,
+  });
+  const interval = Math.max(1, Math.floor(spec.sampleInterval ?? 1));
+  const populations: (number | null)[] =
+    new Array(Math.floor(spec.generations / interval) + 1).fill(null);
+  life.onStats = ({ step, population }) => {
+    if (step % interval === 0 && step / interval < populations.length) {
+      populations[step / interval] = population;
+    }
+  };
+  try {
+    // The constructor has already drawn a random grid, so reset the random
+    // numbers to get the same soup as the main page does for this seed.
+    life.setSeed(seed);
+    life.setRandom(spec.density);
+    if (!await life.runTo(spec.generations, { signal })) {
+      return undefined;
+    }
+    await life.statsSettled();
+    const stats = life.currentStats();
+    // Once the grid is in a cycle, runTo skips whole periods, so the
+    // populations of the generations skipped come from the cycle.
+    const cycle = life.cycle;
+    if (cycle) {
+      const cyclePopulations = new Map(life.stats.map(({ step, population }) => [step, population]));
+      populations.forEach((population, n) => {
+        const step = n * interval;
+        if (population === null && step >= cycle.start) {
+          populations[n] =
+            cyclePopulations.get(cycle.start + (step - cycle.start) % cycle.period) ?? null;
+        }
+      });
+    }
+    return {
+      rule: life.ruleString(),
+      width,
+      height,
+      topology,
+      seed,
+      generations: life.step,
+      population: stats?.population ?? null,
+      births: stats?.births ?? null,
+      deaths: stats?.deaths ?? null,
+      hash: stats?.hash ?? '',
+      cycleStart: cycle?.start ?? null,
+      period: cycle?.period ?? null,
+      milliseconds: Math.round(performance.now() - start),
+      populations,
+    };
+  } finally {
+    life.destroy();
+  }
+}
+
+/** Converts results to CSV, with a header row. */
+export function resultsToCsv(results: BatchResult[]): string {
+  const quote = (value: unknown) => {
+    const str = value === null ? '' : String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+  };
+  const rows = [
+    CSV_COLUMNS.join(','),
+    ...results.map((result) => CSV_COLUMNS.map((column) => quote(result[column])).join(',')),
+  ];
+  return rows.join('\n') + '\n';
+}
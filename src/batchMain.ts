@@ -0,0 +1,180 @@
+/** The batch experiment page (batch.html), which runs many grids without
+ * drawing them and collects the results as CSV or JSON. */
+
+import {
+  type BatchResult,
+  type BatchSpec,
+  batchSize,
+  resultsToCsv,
+  runBatch,
+} from './batch';
+import { defaultRule } from './rules';
+import { parseSeed } from './random';
+import { type Topology, topologies } from './topology';
+
+// Nothing is drawn, so WebGPU isn't required. Without it, or if compute
+// shaders aren't available (as in main.ts), Life runs on the CPU.
+const adapter = await navigator.gpu?.requestAdapter({
+  featureLevel: 'compatibility',
+});
+const device = await adapter?.requestDevice();
+const computeAvailable = device !== undefined
+  && device.limits.maxComputeInvocationsPerWorkgroup > 0
+  && device.limits.maxStorageBuffersPerShaderStage >= 3;
+
+// For scripting from the browser console, e.g.
+// await runBatch({ rules: ['B3/S23'], sizes: [{ width: 64, height: 32 }],
+//   topologies: ['klein', 'torus'], seeds: [1, 2, 3], density: 0.3,
+//   generations: 1000 })
+declare global {
+  interface Window {
+    runBatch: (spec: BatchSpec) => Promise<BatchResult[]>;
+  }
+}
+window.runBatch = (spec) => runBatch(device, { ...spec, cpu: spec.cpu || !computeAvailable });
+
+const rulesInput = document.getElementById('rules') as HTMLTextAreaElement;
+const sizesInput = document.getElementById('sizes') as HTMLInputElement;
+const topologyList = document.getElementById('topologies') as HTMLElement;
+const seedsInput = document.getElementById('seeds') as HTMLInputElement;
+const densityInput = document.getElementById('density') as HTMLInputElement;
+const generationsInput = document.getElementById('generations') as HTMLInputElement;
+const sampleIntervalInput = document.getElementById('sample-interval') as HTMLInputElement;
+const cpuCheckbox = document.getElementById('cpu') as HTMLInputElement;
+const runButton = document.getElementById('run') as HTMLButtonElement;
+const progressElement = document.getElementById('progress') as HTMLElement;
+const resultsBody = document.getElementById('results-body') as HTMLTableSectionElement;
+const downloadCsvButton = document.getElementById('download-csv') as HTMLButtonElement;
+const downloadJsonButton = document.getElementById('download-json') as HTMLButtonElement;
+
+rulesInput.value = defaultRule;
+cpuCheckbox.checked = !computeAvailable;
+cpuCheckbox.disabled = !computeAvailable;
+const topologyCheckboxes = topologies.map(({ name, label }) => {
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.id = `topology-${name}`;
+  checkbox.value = name;
+  checkbox.checked = name === 'klein' || name === 'torus';
+  const labelElement = document.createElement('label');
+  labelElement.htmlFor = checkbox.id;
+  labelElement.innerText = label;
+  topologyList.append(checkbox, labelElement);
+  return checkbox;
+});
+
+/** Reads the spec from the form. Throws an Error if something in it can't be
+ * parsed. */
+function readSpec(): BatchSpec {
+  const rules = rulesInput.value.split('\n').map((line) => line.trim()).filter((line) => line);
+  const sizes = sizesInput.value.split(/[\s,]+/).filter((size) => size).map((size) => {
+    const match = /^(\d+)x(\d+)$/i.exec(size);
+    if (!match) {
+      throw new Error(`Invalid grid size: "${size}" (should be like 64x32)`);
+    }
+    return { width: Number(match[1]), height: Number(match[2]) };
+  });
+  // Seeds can be ranges like 1-10, or words, as in the seed input of the main
+  // page.
+  const seeds = seedsInput.value.split(/[\s,]+/).filter((seed) => seed).flatMap((seed) => {
+    const match = /^(\d+)-(\d+)$/.exec(seed);
+    if (!match) {
+      return [parseSeed(seed)];
+    }
+    const seedRange = [];
+    for (let n = Number(match[1]); n <= Number(match[2]); n++) {
+      seedRange.push(n);
+    }
+    return seedRange;
+  });
+  const density = Number(densityInput.value);
+  const generations = Math.floor(Number(generationsInput.value));
+  const sampleInterval = Math.floor(Number(sampleIntervalInput.value));
+  if (!(density >= 0 && density <= 1)) {
+    throw new Error('Density must be between 0 and 1');
+  }
+  if (!(generations >= 0)) {
+    throw new Error('Generations must be a number');
+  }
+  if (!(sampleInterval >= 1)) {
+    throw new Error('The population interval must be at least 1');
+  }
+  return {
+    rules,
+    sizes,
+    topologies: topologyCheckboxes
+      .filter((checkbox) => checkbox.checked)
+      .map((checkbox) => checkbox.value as Topology),
+    seeds,
+    density,
+    generations,
+    cpu: cpuCheckbox.checked,
+    sampleInterval,
+  };
+}
+
+let results: BatchResult[] = [];
+// Set while a batch is running, to stop it.
+let runController: AbortController | undefined;
+
+function showResult(result: BatchResult) {
+  const row = resultsBody.insertRow();
+  for (const value of [
+    result.rule, `${result.width}x${result.height}`, result.topology, result.seed,
+    result.generations, result.population, result.cycleStart, result.period,
+    result.milliseconds,
+  ]) {
+    row.insertCell().innerText = String(value ?? '');
+  }
+}
+
+runButton.addEventListener('click', async () => {
+  if (runController) {
+    runController.abort();
+    return;
+  }
+  let spec;
+  try {
+    spec = readSpec();
+  } catch (error) {
+    window.alert((error as Error).message);
+    return;
+  }
+  const total = batchSize(spec);
+  results = [];
+  resultsBody.replaceChildren();
+  runController = new AbortController();
+  runButton.innerText = 'Stop';
+  progressElement.innerText = `0 / ${total}`;
+  try {
+    await runBatch(device, spec, {
+      signal: runController.signal,
+      onResult: (result) => {
+        results.push(result);
+        showResult(result);
+        progressElement.innerText = `${results.length} / ${total}`;
+      },
+    });
+  } catch (error) {
+    window.alert((error as Error).message);
+  }
+  runController = undefined;
+  runButton.innerText = 'Run';
+});
+
+/** Makes the browser download a file with the given contents. */
+function downloadFile(fileName: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+downloadCsvButton.addEventListener('click', () => {
+  downloadFile('kleinlife-batch.csv', resultsToCsv(results), 'text/csv');
+});
+downloadJsonButton.addEventListener('click', () => {
+  downloadFile('kleinlife-batch.json', JSON.stringify(results, null, 2), 'application/json');
+});
@@ -167,4 +167,18 @@ export function cameraClose(
     return false;
   }
   return true;
-}
\ No newline at end of file
+}
+
+/** Returns a camera position partway between two others: the first if t is 0,
+ * and the second if t is 1. */
+export function mixCameras(
+  camera1: CameraPosition,
+  camera2: CameraPosition,
+  t: number,
+): CameraPosition {
+  return {
+    eye: vec3.lerp(camera1.eye, camera2.eye, t),
+    target: vec3.lerp(camera1.target, camera2.target, t),
+    up: vec3.normalize(vec3.lerp(camera1.up, camera2.up, t)),
+  };
+}
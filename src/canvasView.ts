@@ -0,0 +1,92 @@
+/** A flat 2D view of the whole Life grid drawn with Canvas2D, for browsers
+ * without WebGPU (see fallback.ts). It looks like the map drawn by
+ * flatMap.wgsl, without the zooming and panning. */
+
+import { bitsToFloat } from './continuous';
+
+type Color = [number, number, number];
+
+const BACKGROUND: Color = [0.08, 0.1, 0.16];
+const LIVE: Color = [0.85, 0.75, 0.6];
+const DYING: Color = [0.1, 0.15, 0.4];
+// Like MIN_VISIBLE_VALUE in solidColorLit.wgsl.
+const MIN_VISIBLE_VALUE = 0.02;
+
+function mix(a: Color, b: Color, t: number): Color {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+}
+
+/** How cells are colored; see ToroidalLife. */
+export type Coloring = { states: number; ageMode: boolean; continuous: boolean };
+
+/** Returns the color of a cell, like cellColor in flatMap.wgsl. */
+function cellColor(state: number, { states, ageMode, continuous }: Coloring): Color {
+  if (continuous) {
+    const value = bitsToFloat(state);
+    return value < MIN_VISIBLE_VALUE ? BACKGROUND : mix(DYING, LIVE, value);
+  }
+  if (state === 0) {
+    return BACKGROUND;
+  }
+  if (ageMode) {
+    return mix([1, 0.95, 0.7], LIVE, 1 - Math.exp(-(state - 1) / 16));
+  }
+  if (state >= 2 && state < states) {
+    return mix(mix(LIVE, [0, 0, 0], 0.2), DYING, (state - 1) / (states - 1));
+  }
+  return LIVE;
+}
+
+export class CanvasView {
+  canvas: HTMLCanvasElement;
+  width: number; // Size of the grid, in cells
+  height: number;
+  // The grid is drawn into this at one pixel per cell, then scaled up.
+  image: ImageData;
+  gridCanvas: HTMLCanvasElement;
+
+  constructor(canvas: HTMLCanvasElement, width: number, height: number) {
+    this.canvas = canvas;
+    this.width = width;
+    this.height = height;
+    this.image = new ImageData(width, height);
+    this.gridCanvas = document.createElement('canvas');
+    this.gridCanvas.width = width;
+    this.gridCanvas.height = height;
+  }
+
+  /** Draws the cells (width * height, row by row), as big as they fit in
+   * the canvas. */
+  render(cells: Uint32Array, coloring: Coloring) {
+    const dpr = window.devicePixelRatio;
+    const canvasWidth = Math.max(1, Math.floor(this.canvas.clientWidth * dpr));
+    const canvasHeight = Math.max(1, Math.floor(this.canvas.clientHeight * dpr));
+    if (this.canvas.width !== canvasWidth || this.canvas.height !== canvasHeight) {
+      this.canvas.width = canvasWidth;
+      this.canvas.height = canvasHeight;
+    }
+
+    const pixels = this.image.data;
+    for (let i = 0; i < cells.length; i++) {
+      const [r, g, b] = cellColor(cells[i], coloring);
+      pixels[i * 4] = r * 255;
+      pixels[i * 4 + 1] = g * 255;
+      pixels[i * 4 + 2] = b * 255;
+      pixels[i * 4 + 3] = 255;
+    }
+    this.gridCanvas.getContext('2d')!.putImageData(this.image, 0, 0);
+
+    const ctx = this.canvas.getContext('2d')!;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    const cellSize = Math.min(canvasWidth / this.width, canvasHeight / this.height);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(
+      this.gridCanvas,
+      Math.floor((canvasWidth - this.width * cellSize) / 2),
+      Math.floor((canvasHeight - this.height * cellSize) / 2),
+      this.width * cellSize,
+      this.height * cellSize,
+    );
+  }
+}
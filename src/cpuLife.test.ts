@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { countCells, stepLife } from './cpuLife';
+import { ToroidalLife } from './life';
+import { libraryPattern } from './patterns';
+import { parseRule } from './rules';
+import { type Topology, wrapCell } from './topology';
+
+const conway = parseRule('B3/S23');
+const width = 16;
+const height = 12;
+
+/** Returns a grid with the given cells set, each mapped through wrapCell. */
+function gridWith(cells: [number, number][], topology: Topology): Uint32Array {
+  const grid = new Uint32Array(width * height);
+  for (const [x, y] of cells) {
+    const cell = wrapCell(x, y, width, height, topology);
+    if (cell) {
+      grid[cell[1] * width + cell[0]] = 1;
+    }
+  }
+  return grid;
+}
+
+/** Runs Conway's Life on a grid for some generations, checking that the
+ * statistics of each step agree with countCells. */
+function run(cells: Uint32Array, generations: number, topology: Topology): Uint32Array {
+  let current = cells.slice();
+  let next = new Uint32Array(cells.length);
+  for (let step = 0; step < generations; step++) {
+    const stats = stepLife(current, next, width, height, conway, topology);
+    const counted = countCells(next, conway, false);
+    expect(stats.population).toBe(counted.population);
+    expect(stats.hash).toBe(counted.hash);
+    [current, next] = [next, current];
+  }
+  return current;
+}
+
+describe.each(['klein', 'kleiny', 'torus'] as Topology[])('stepLife on a %s', (topology) => {
+  it('moves a glider across the seams', () => {
+    // Start near the corner, so the glider crosses both seams, and run it
+    // all the way around in x. Every 4 generations it moves one cell in +x
+    // and +y, and the way the seams are glued is applied to each cell.
+    const glider = libraryPattern('glider').cells.map(([x, y]): [number, number] => [
+      x + width - 4,
+      y + height - 4,
+    ]);
+    const laps = width;
+    const result = run(gridWith(glider, topology), 4 * laps, topology);
+    const moved = glider.map(([x, y]): [number, number] => [x + laps, y + laps]);
+    expect(result).toEqual(gridWith(moved, topology));
+  });
+
+  it('leaves still lifes where they are, even across the seams', () => {
+    const block: [number, number][] = [[-1, 0], [0, 0], [-1, 1], [0, 1]];
+    const beehive: [number, number][] = [[5, 3], [6, 2], [7, 2], [8, 3], [6, 4], [7, 4]];
+    const loaf: [number, number][] = [[6, 7], [7, 7], [5, 8], [8, 8], [6, 9], [8, 9], [7, 10]];
+    const cells = gridWith([...block, ...beehive, ...loaf], topology);
+    expect(run(cells, 3, topology)).toEqual(cells);
+    expect(stepLife(cells, new Uint32Array(cells.length), width, height, conway, topology)).toEqual({
+      population: 17,
+      births: 0,
+      deaths: 0,
+      hash: countCells(cells, conway, false).hash,
+    });
+  });
+});
+
+describe('drawXStripe', () => {
+  function stripe(topology: Topology, y: number): Uint32Array {
+    const life = new ToroidalLife(undefined, width, height, { cpu: true, topology });
+    life.clear();
+    life.drawXStripe(y);
+    return life.cellStateArray;
+  }
+
+  function rows(cells: Uint32Array): number[] {
+    const filled = [];
+    for (let y = 0; y < height; y++) {
+      const row = cells.subarray(y * width, (y + 1) * width);
+      if (row.every((state) => state === 1)) {
+        filled.push(y);
+      } else {
+        expect(row.every((state) => state === 0)).toBe(true);
+      }
+    }
+    return filled;
+  }
+
+  it('joins up with itself after going around twice on a Klein bottle', () => {
+    // Going around once in x maps y to height / 2 - 1 - y.
+    expect(rows(stripe('klein', 1))).toEqual([1, 4]);
+    expect(rows(stripe('klein', 8))).toEqual([8, 9]);
+  });
+
+  it('covers one row where going around in x keeps y the same', () => {
+    expect(rows(stripe('kleiny', 1))).toEqual([1]);
+    expect(rows(stripe('torus', 1))).toEqual([1]);
+  });
+});
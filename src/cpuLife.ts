@@ -0,0 +1,320 @@
+/** A CPU implementation of the Life step computed by life.wgsl. It's used as a
+ * reference to check the shader against, and as a fallback when compute
+ * shaders aren't available. */
+
+import { type LifeRule, inNeighborhood, neighborhoodSize } from './rules';
+import { type ContinuousRule, bitsToFloat } from './continuous';
+import { type Topology, wrapCell } from './topology';
+
+/** Returns the offsets of the neighbors of a cell, e.g. the 8 surrounding
+ * cells for a life-like rule. */
+function neighborOffsets(rule: LifeRule): [number, number][] {
+  const offsets: [number, number][] = [];
+  for (let dy = -rule.range; dy <= rule.range; dy++) {
+    for (let dx = -rule.range; dx <= rule.range; dx++) {
+      if ((dx || dy) && inNeighborhood(rule, dx, dy)) {
+        offsets.push([dx, dy]);
+      }
+    }
+  }
+  return offsets;
+}
+
+/** Converts a list of neighbor counts to a table with 1 for each count in the
+ * list. */
+function countTable(counts: number[], rule: LifeRule): Uint8Array {
+  const table = new Uint8Array(neighborhoodSize(rule.neighborhood, rule.range) + 2);
+  for (const n of counts) {
+    table[n] = 1;
+  }
+  return table;
+}
+
+// Ages stop increasing at this point. This must match life.wgsl.
+const MAX_AGE = 0xFFFF;
+
+/** Returns true for the states of live cells, which depend on the rule and
+ * whether the states are ages (see LifeOptions in life.ts). This must match
+ * isActive in life.wgsl. */
+export function isActive(
+  state: number,
+  rule: LifeRule | ContinuousRule,
+  ageMode: boolean,
+): boolean {
+  if ('kind' in rule) {
+    return bitsToFloat(state) >= 0.5;
+  }
+  if (ageMode) {
+    return state >= 1;
+  }
+  return state === 1 || state >= rule.states;
+}
+
+/** The value a cell contributes to the hash of a generation. This must match
+ * hashedState in life.wgsl. */
+function hashedState(
+  state: number,
+  rule: LifeRule | ContinuousRule,
+  ageMode: boolean,
+): number {
+  if (ageMode && !('kind' in rule)) {
+    return isActive(state, rule, ageMode) ? 1 : 0;
+  }
+  return state;
+}
+
+/** Returns 1 if the cell at the given coordinates, which may lie outside the
+ * grid, is active. `active` has 1 for each active cell in the grid. Cells
+ * beyond an edge that isn't glued to anything are inactive. */
+function cellActive(
+  active: Uint8Array,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  topology: Topology,
+): number {
+  const cell = wrapCell(x, y, width, height, topology);
+  return cell ? active[cell[1] * width + cell[0]] : 0;
+}
+
+/** Statistics about one step. */
+export type StepStats = {
+  population: number; // Active cells after the step
+  births: number;
+  deaths: number;
+  // Hash of the generation after the step. If two generations have the same
+  // hash, they're almost certainly identical.
+  hash: string;
+};
+
+// Salts for the two 32-bit halves of the generation hashes. These must match
+// the ones in life.wgsl.
+const HASH_SALT_A = 0x9E3779B9;
+const HASH_SALT_B = 0x85EBCA6B;
+
+/** Hashes the index and (hashed) state of a cell that isn't dead. This must
+ * match cellHash in life.wgsl. */
+function cellHash(i: number, state: number, salt: number): number {
+  let h = (Math.imul((Math.imul(i, 256) + state) ^ salt, 747796405) + 2891336453) >>> 0;
+  h = Math.imul((h >>> ((h >>> 28) + 4)) ^ h, 277803737) >>> 0;
+  return ((h >>> 22) ^ h) >>> 0;
+}
+
+/** Combines the two 32-bit sums of cell hashes into the hash of a
+ * generation. */
+export function generationHash(sumA: number, sumB: number): string {
+  return sumA.toString(16).padStart(8, '0') + sumB.toString(16).padStart(8, '0');
+}
+
+/** Counts the active cells in a generation, and hashes it. */
+export function countCells(
+  cells: Uint32Array,
+  rule: LifeRule | ContinuousRule,
+  ageMode: boolean,
+): { population: number; hash: string } {
+  let population = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < cells.length; i++) {
+    if (isActive(cells[i], rule, ageMode)) {
+      population++;
+    }
+    const hashed = hashedState(cells[i], rule, ageMode);
+    if (hashed) {
+      sumA = (sumA + cellHash(i, hashed, HASH_SALT_A)) >>> 0;
+      sumB = (sumB + cellHash(i, hashed, HASH_SALT_B)) >>> 0;
+    }
+  }
+  return { population, hash: generationHash(sumA, sumB) };
+}
+
+/** Computes the next generation from cellsIn and stores it in cellsOut. Both
+ * arrays hold width * height cells, row by row, like the storage buffers used
+ * by ToroidalLife. This must produce the same results as computeMain in
+ * life.wgsl, and the returned statistics must match statsMain. */
+export function stepLife(
+  cellsIn: Uint32Array,
+  cellsOut: Uint32Array,
+  width: number,
+  height: number,
+  rule: LifeRule,
+  topology: Topology,
+  ageMode = false,
+): StepStats {
+  const active = new Uint8Array(cellsIn.length);
+  for (let i = 0; i < cellsIn.length; i++) {
+    active[i] = isActive(cellsIn[i], rule, ageMode) ? 1 : 0;
+  }
+  const offsets = neighborOffsets(rule);
+  const indexOffsets = offsets.map(([dx, dy]) => dy * width + dx);
+  const birth = countTable(rule.birth, rule);
+  const survival = countTable(rule.survival, rule);
+  const r = rule.range;
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let y = 0; y < height; y++) {
+    // Cells near the edges need their neighbors looked up through wrapCell.
+    // Others can use the quicker direct lookup.
+    const yEdge = y < r || y >= height - r;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let activeNeighbors = 0;
+      if (yEdge || x < r || x >= width - r) {
+        for (const [dx, dy] of offsets) {
+          activeNeighbors += cellActive(active, x + dx, y + dy, width, height, topology);
+        }
+      } else {
+        for (const offset of indexOffsets) {
+          activeNeighbors += active[i + offset];
+        }
+      }
+      if (rule.middle) {
+        activeNeighbors += active[i];
+      }
+      const state = cellsIn[i];
+      if (active[i]) {
+        if (survival[activeNeighbors]) {
+          cellsOut[i] = ageMode ? Math.min(state + 1, MAX_AGE) : 1;
+        } else {
+          cellsOut[i] = rule.states > 2 ? 2 : 0;
+        }
+      } else if (state === 0) {
+        cellsOut[i] = birth[activeNeighbors];
+      } else {
+        cellsOut[i] = (state + 1) % rule.states;
+      }
+      const before = active[i] === 1;
+      const after = isActive(cellsOut[i], rule, ageMode);
+      if (after) {
+        population++;
+      }
+      const hashed = hashedState(cellsOut[i], rule, ageMode);
+      if (hashed) {
+        sumA = (sumA + cellHash(i, hashed, HASH_SALT_A)) >>> 0;
+        sumB = (sumB + cellHash(i, hashed, HASH_SALT_B)) >>> 0;
+      }
+      if (after && !before) {
+        births++;
+      } else if (before && !after) {
+        deaths++;
+      }
+    }
+  }
+  return { population, births, deaths, hash: generationHash(sumA, sumB) };
+}
+
+/** Returns the weights of the cells in the neighborhood of a cell, for a
+ * continuous rule. This must match continuousMain in life.wgsl. */
+function continuousWeights(rule: ContinuousRule): { dx: number; dy: number; inner: number; outer: number }[] {
+  const weights = [];
+  const r = Math.ceil(rule.radius);
+  for (let dy = -r; dy <= r; dy++) {
+    for (let dx = -r; dx <= r; dx++) {
+      const distance = Math.hypot(dx, dy);
+      let inner = 0;
+      let outer = 0;
+      if (rule.kind === 'lenia') {
+        const q = distance / rule.radius;
+        if (q > 0 && q < 1) {
+          outer = Math.exp(4 - 1 / (q * (1 - q)));
+        }
+      } else {
+        inner = Math.min(Math.max(rule.radius * rule.innerRadius + 0.5 - distance, 0), 1);
+        outer = Math.min(Math.max(rule.radius + 0.5 - distance, 0), 1) - inner;
+      }
+      if (inner > 0 || outer > 0) {
+        weights.push({ dx, dy, inner, outer });
+      }
+    }
+  }
+  return weights;
+}
+
+function sigmoid(x: number, a: number, alpha: number): number {
+  return 1 / (1 + Math.exp(-(x - a) * 4 / alpha));
+}
+
+/** Computes the next step of a continuous rule, like stepLife. The cells hold
+ * the bits of 32-bit floats. This must produce the same results as
+ * continuousMain in life.wgsl, apart from rounding. */
+export function stepContinuous(
+  cellsIn: Uint32Array,
+  cellsOut: Uint32Array,
+  width: number,
+  height: number,
+  rule: ContinuousRule,
+  topology: Topology,
+): StepStats {
+  const valuesIn = new Float32Array(cellsIn.buffer, cellsIn.byteOffset, cellsIn.length);
+  const valuesOut = new Float32Array(cellsOut.buffer, cellsOut.byteOffset, cellsOut.length);
+  const weights = continuousWeights(rule);
+  const r = Math.ceil(rule.radius);
+  const interval = (x: number, a: number, b: number) =>
+    sigmoid(x, a, rule.alphaN) * (1 - sigmoid(x, b, rule.alphaN));
+  const mix = (x: number, y: number, m: number) => {
+    const t = sigmoid(m, 0.5, rule.alphaM);
+    return x * (1 - t) + y * t;
+  };
+  let population = 0;
+  let births = 0;
+  let deaths = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let y = 0; y < height; y++) {
+    const yEdge = y < r || y >= height - r;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const edge = yEdge || x < r || x >= width - r;
+      let innerSum = 0;
+      let innerWeight = 0;
+      let outerSum = 0;
+      let outerWeight = 0;
+      for (const { dx, dy, inner, outer } of weights) {
+        let value = 0;
+        if (!edge) {
+          value = valuesIn[i + dy * width + dx];
+        } else {
+          const cell = wrapCell(x + dx, y + dy, width, height, topology);
+          value = cell ? valuesIn[cell[1] * width + cell[0]] : 0;
+        }
+        innerSum += inner * value;
+        innerWeight += inner;
+        outerSum += outer * value;
+        outerWeight += outer;
+      }
+      const value = valuesIn[i];
+      let next: number;
+      if (rule.kind === 'lenia') {
+        const u = outerSum / outerWeight;
+        const growth = 2 * Math.exp(-((u - rule.mu) ** 2) / (2 * rule.sigma ** 2)) - 1;
+        next = value + rule.dt * growth;
+      } else {
+        const m = innerSum / innerWeight;
+        const n = outerSum / outerWeight;
+        const s = interval(n, mix(rule.b1, rule.d1, m), mix(rule.b2, rule.d2, m));
+        next = value + (s - value) * rule.dt;
+      }
+      valuesOut[i] = Math.min(Math.max(next, 0), 1);
+
+      const before = value >= 0.5;
+      const after = valuesOut[i] >= 0.5;
+      if (after) {
+        population++;
+      }
+      if (after && !before) {
+        births++;
+      } else if (before && !after) {
+        deaths++;
+      }
+      if (cellsOut[i]) {
+        sumA = (sumA + cellHash(i, cellsOut[i], HASH_SALT_A)) >>> 0;
+        sumB = (sumB + cellHash(i, cellsOut[i], HASH_SALT_B)) >>> 0;
+      }
+    }
+  }
+  return { population, births, deaths, hash: generationHash(sumA, sumB) };
+}
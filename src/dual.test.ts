@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { type Dual, abs, atan2, constant, mul, pow, sqrt, variables } from './dual';
+
+/** Checks the derivatives of a function of u and v against central
+ * differences. */
+function expectDerivatives(f: (u: Dual, v: Dual) => Dual, u: number, v: number) {
+  const h = 1e-6;
+  const value = (u: number, v: number) => f(...variables(u, v)).value;
+  const result = f(...variables(u, v));
+  expect(result.du).toBeCloseTo((value(u + h, v) - value(u - h, v)) / (2 * h), 6);
+  expect(result.dv).toBeCloseTo((value(u, v + h) - value(u, v - h)) / (2 * h), 6);
+}
+
+describe('abs', () => {
+  it('has the derivative of the sign it removes', () => {
+    expectDerivatives((u, v) => abs(mul(u, v)), 1.5, -2);
+    expectDerivatives((u, v) => abs(mul(u, v)), -1.5, -2);
+  });
+
+  it('has a derivative of 0 at 0', () => {
+    const [u] = variables(0, 1);
+    expect(abs(u)).toEqual({ value: 0, du: 0, dv: 0 });
+  });
+});
+
+describe('pow', () => {
+  it('works with a constant exponent', () => {
+    expectDerivatives((u) => pow(u, 3), -1.2, 0);
+    expectDerivatives((u) => pow(u, 0.5), 2, 0);
+    expectDerivatives((u) => pow(u, -2), 0.7, 0);
+  });
+
+  it('works with a variable exponent', () => {
+    expectDerivatives((u, v) => pow(u, v), 1.7, 0.6);
+    expectDerivatives((u) => pow(2, u), 1.3, 0);
+  });
+
+  it('has a derivative of 0 for an exponent of 0, even at 0', () => {
+    const [u] = variables(0, 1);
+    expect(pow(u, 0)).toEqual({ value: 1, du: 0, dv: 0 });
+    expect(pow(u, 2)).toEqual({ value: 0, du: 0, dv: 0 });
+  });
+
+  it("has a derivative of 0 where the argument doesn't vary, even if the slope is infinite", () => {
+    expect(pow(constant(0), 0.5)).toEqual({ value: 0, du: 0, dv: 0 });
+    expect(mul(pow(constant(0), 0.5), sqrt(variables(1, 4)[1]))).toEqual({ value: 0, du: 0, dv: 0 });
+  });
+});
+
+describe('atan2', () => {
+  it('works in every quadrant', () => {
+    for (const [y, x] of [[1, 2], [1, -2], [-1, -2], [-1, 2]]) {
+      expectDerivatives((u, v) => atan2(u, v), y, x);
+    }
+  });
+
+  it('is smooth on the negative x axis, apart from the jump in value', () => {
+    const [u, v] = variables(0, -2);
+    const result = atan2(u, v);
+    expect(result.value).toBe(Math.PI);
+    expect(result.du).toBeCloseTo(-0.5, 12);
+    expect(result.dv).toBeCloseTo(0, 12);
+  });
+
+  it('has derivatives of 0 at the origin', () => {
+    const [u, v] = variables(0, 0);
+    expect(atan2(u, v)).toEqual({ value: 0, du: 0, dv: 0 });
+    expect(atan2(0, 0)).toEqual({ value: 0, du: 0, dv: 0 });
+  });
+});
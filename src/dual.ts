@@ -0,0 +1,205 @@
+/** Dual numbers, for computing exact derivatives of the surfaces in
+ * kleinBottle.ts (automatic differentiation). A dual number holds a value and
+ * its partial derivatives with respect to u and v. The functions here follow
+ * the usual rules of differentiation, so a parameterization written with them
+ * gives its derivatives along with its position, without the error of finite
+ * differences. Arguments can also be plain numbers, which are constants. */
+
+export type Dual = {
+  value: number;
+  du: number; // Partial derivative with respect to u
+  dv: number; // Partial derivative with respect to v
+};
+
+export type DualArg = Dual | number;
+
+export type DualVec3 = [Dual, Dual, Dual];
+
+export function constant(value: number): Dual {
+  return { value, du: 0, dv: 0 };
+}
+
+/** The variables of a parameterization, to pass to it. */
+export function variables(u: number, v: number): [Dual, Dual] {
+  return [{ value: u, du: 1, dv: 0 }, { value: v, du: 0, dv: 1 }];
+}
+
+function lift(a: DualArg): Dual {
+  return typeof a === 'number' ? constant(a) : a;
+}
+
+/** Applies a function to a, given the function's value and derivative at a
+ * (the chain rule). */
+function chain(a: DualArg, value: number, derivative: number): Dual {
+  const { du, dv } = lift(a);
+  // Avoids infinity times zero where the derivative doesn't matter.
+  return {
+    value,
+    du: du === 0 ? 0 : derivative * du,
+    dv: dv === 0 ? 0 : derivative * dv,
+  };
+}
+
+export function add(...terms: DualArg[]): Dual {
+  const sum = constant(0);
+  for (const term of terms.map(lift)) {
+    sum.value += term.value;
+    sum.du += term.du;
+    sum.dv += term.dv;
+  }
+  return sum;
+}
+
+export function sub(a: DualArg, b: DualArg): Dual {
+  const x = lift(a);
+  const y = lift(b);
+  return { value: x.value - y.value, du: x.du - y.du, dv: x.dv - y.dv };
+}
+
+export function neg(a: DualArg): Dual {
+  const x = lift(a);
+  return { value: -x.value, du: -x.du, dv: -x.dv };
+}
+
+export function mul(...factors: DualArg[]): Dual {
+  const product = constant(1);
+  for (const factor of factors.map(lift)) {
+    product.du = product.du * factor.value + product.value * factor.du;
+    product.dv = product.dv * factor.value + product.value * factor.dv;
+    product.value *= factor.value;
+  }
+  return product;
+}
+
+export function div(a: DualArg, b: DualArg): Dual {
+  const x = lift(a);
+  const y = lift(b);
+  const y2 = y.value * y.value;
+  return {
+    value: x.value / y.value,
+    du: (x.du * y.value - x.value * y.du) / y2,
+    dv: (x.dv * y.value - x.value * y.dv) / y2,
+  };
+}
+
+/** a to the power b. If b isn't constant, a must be positive. */
+export function pow(a: DualArg, b: DualArg): Dual {
+  const x = lift(a);
+  const y = lift(b);
+  const value = Math.pow(x.value, y.value);
+  if (y.du === 0 && y.dv === 0) {
+    return chain(x, value, y.value === 0 ? 0 : y.value * Math.pow(x.value, y.value - 1));
+  }
+  // d(x^y) = x^y * (y' ln x + y x' / x)
+  const logX = Math.log(x.value);
+  return {
+    value,
+    du: value * (y.du * logX + y.value * x.du / x.value),
+    dv: value * (y.dv * logX + y.value * x.dv / x.value),
+  };
+}
+
+export function sqrt(a: DualArg): Dual {
+  const value = Math.sqrt(lift(a).value);
+  return chain(a, value, 0.5 / value);
+}
+
+export function exp(a: DualArg): Dual {
+  const value = Math.exp(lift(a).value);
+  return chain(a, value, value);
+}
+
+export function log(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.log(x), 1 / x);
+}
+
+export function sin(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.sin(x), Math.cos(x));
+}
+
+export function cos(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.cos(x), -Math.sin(x));
+}
+
+export function tan(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.tan(x), 1 / (Math.cos(x) * Math.cos(x)));
+}
+
+export function asin(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.asin(x), 1 / Math.sqrt(1 - x * x));
+}
+
+export function acos(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.acos(x), -1 / Math.sqrt(1 - x * x));
+}
+
+export function atan(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.atan(x), 1 / (1 + x * x));
+}
+
+/** The angle of the point (b, a), as for Math.atan2. The derivative at the
+ * origin is taken to be 0. */
+export function atan2(a: DualArg, b: DualArg): Dual {
+  const y = lift(a);
+  const x = lift(b);
+  const r2 = x.value * x.value + y.value * y.value;
+  if (r2 === 0) {
+    return constant(Math.atan2(y.value, x.value));
+  }
+  return {
+    value: Math.atan2(y.value, x.value),
+    du: (x.value * y.du - y.value * x.du) / r2,
+    dv: (x.value * y.dv - y.value * x.dv) / r2,
+  };
+}
+
+export function sinh(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.sinh(x), Math.cosh(x));
+}
+
+export function cosh(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.cosh(x), Math.sinh(x));
+}
+
+export function tanh(a: DualArg): Dual {
+  const x = lift(a).value;
+  const value = Math.tanh(x);
+  return chain(a, value, 1 - value * value);
+}
+
+/** Absolute value. The derivative at 0 is taken to be 0. */
+export function abs(a: DualArg): Dual {
+  const x = lift(a).value;
+  return chain(a, Math.abs(x), Math.sign(x));
+}
+
+// These are flat (or undefined) everywhere, as far as derivatives go.
+
+export function sign(a: DualArg): Dual {
+  return constant(Math.sign(lift(a).value));
+}
+
+export function floor(a: DualArg): Dual {
+  return constant(Math.floor(lift(a).value));
+}
+
+export function ceil(a: DualArg): Dual {
+  return constant(Math.ceil(lift(a).value));
+}
+
+export function min(...args: DualArg[]): Dual {
+  return args.map(lift).reduce((a, b) => (b.value < a.value ? b : a));
+}
+
+export function max(...args: DualArg[]): Dual {
+  return args.map(lift).reduce((a, b) => (b.value > a.value ? b : a));
+}
@@ -0,0 +1,12 @@
+/** Entry point of the main page. Runs the whole app (main.ts) if WebGPU is
+ * available, and otherwise the simpler version in fallback.ts, instead of
+ * just showing an error. */
+
+const adapter = await navigator.gpu?.requestAdapter({
+  featureLevel: 'compatibility',
+});
+if (adapter) {
+  await import('./main');
+} else {
+  await import('./fallback');
+}
@@ -0,0 +1,188 @@
+/** A simpler version of the app for browsers without WebGPU: the simulation
+ * runs on the CPU, and the grid is shown as a flat map drawn with Canvas2D
+ * (see canvasView.ts) instead of on a 3D Klein bottle. Only the controls that
+ * make sense without the 3D view are shown. entry.ts chooses between this and
+ * main.ts. */
+
+import { ToroidalLife, checkRule } from './life';
+import { CanvasView } from './canvasView';
+import { PopulationChart } from './populationChart';
+import { defaultRule, rulePresets } from './rules';
+import { continuousRulePresets } from './continuous';
+import { newSeed, parseSeed } from './random';
+import { topologies } from './topology';
+
+// The same URL parameters as in main.ts, where they make sense.
+const params = new URLSearchParams(window.location.search);
+const gridSize = params.get('grid') || '128x64'; // Height must be even
+const [widthStr, heightStr] = gridSize.toLowerCase().split('x');
+const width = Number(widthStr) || 128;
+const height = Number(heightStr) || 64;
+const topologyParam = params.get('topology');
+const initPattern = (params.get('init') || 'random').toLowerCase();
+const ruleParam = params.get('rule') || defaultRule;
+// As in main.ts, an invalid rule is replaced by the default one.
+let ruleParamError = '';
+try {
+  checkRule(ruleParam);
+} catch (error) {
+  ruleParamError = (error as Error).message;
+}
+const initialRule = ruleParamError ? defaultRule : ruleParam;
+const seedParam = params.get('seed');
+
+const settings = {
+  lifeStepsPerSecond: 10,
+  ...JSON.parse(window.localStorage.getItem('settings') || '{}'),
+};
+
+for (const element of document.querySelectorAll<HTMLElement>('.webgpu-only')) {
+  element.style.display = 'none';
+}
+(document.getElementById('hint') as HTMLElement).innerText =
+  "WebGPU isn't available in this browser, so the grid is shown flat";
+
+const life = new ToroidalLife(undefined, width, height, {
+  rule: initialRule,
+  // Unknown topologies are ignored, as in main.ts.
+  topology: topologies.find(({ name }) => name === topologyParam?.toLowerCase())?.name ?? 'klein',
+  cpu: true,
+});
+const view = new CanvasView(
+  document.getElementById('the-canvas') as HTMLCanvasElement,
+  width,
+  height,
+);
+
+const lifeSpeedInput = document.getElementById('life-speed') as HTMLInputElement;
+const lifeStepButton = document.getElementById('life-step') as HTMLButtonElement;
+const lifeBackButton = document.getElementById('life-back') as HTMLButtonElement;
+const historyScrub = document.getElementById('history-scrub') as HTMLInputElement;
+const generationElement = document.getElementById('generation') as HTMLElement;
+const populationElement = document.getElementById('population') as HTMLElement;
+const populationChart = new PopulationChart(
+  document.getElementById('population-chart') as HTMLCanvasElement,
+);
+const gotoGenerationInput = document.getElementById('goto-generation') as HTMLInputElement;
+const gotoButton = document.getElementById('goto') as HTMLButtonElement;
+const initializeSelect = document.getElementById('initialize') as HTMLSelectElement;
+const seedInput = document.getElementById('seed') as HTMLInputElement;
+const ruleInput = document.getElementById('rule') as HTMLInputElement;
+const rulePresetList = document.getElementById('rule-presets') as HTMLDataListElement;
+
+lifeSpeedInput.value = String(settings.lifeStepsPerSecond);
+lifeStepButton.disabled = settings.lifeStepsPerSecond !== 0;
+lifeSpeedInput.addEventListener('input', () => {
+  if (lifeSpeedInput.value.trim() == '') {
+    return;
+  }
+  settings.lifeStepsPerSecond = Math.min(
+    Number(lifeSpeedInput.max),
+    Math.max(Number(lifeSpeedInput.min), Number(lifeSpeedInput.value)),
+  );
+  lifeStepButton.disabled = settings.lifeStepsPerSecond !== 0;
+});
+lifeStepButton.addEventListener('click', () => {
+  life.stepForward();
+});
+lifeBackButton.addEventListener('click', () => {
+  life.stepBack();
+});
+historyScrub.addEventListener('input', () => {
+  life.restore(Number(historyScrub.value));
+});
+
+let gotoController: AbortController | undefined;
+async function gotoGeneration() {
+  if (gotoController) {
+    gotoController.abort();
+    return;
+  }
+  const target = Math.floor(Number(gotoGenerationInput.value));
+  if (gotoGenerationInput.value.trim() === '' || !(target >= 0)) {
+    return;
+  }
+  gotoController = new AbortController();
+  gotoButton.innerText = 'Stop';
+  await life.runTo(target, { signal: gotoController.signal });
+  gotoController = undefined;
+  gotoButton.innerText = 'Go';
+}
+gotoButton.addEventListener('click', gotoGeneration);
+gotoGenerationInput.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') {
+    gotoGeneration();
+  }
+});
+
+let currentPattern = initPattern;
+function initLife(pattern: string, seed = newSeed()) {
+  currentPattern = pattern;
+  life.setSeed(seed);
+  seedInput.value = String(seed);
+  life.setPattern(pattern);
+}
+initializeSelect.addEventListener('change', () => {
+  initLife(initializeSelect.value);
+});
+seedInput.addEventListener('change', () => {
+  initLife(currentPattern, parseSeed(seedInput.value));
+});
+
+for (const preset of [...rulePresets, ...continuousRulePresets]) {
+  const option = document.createElement('option');
+  option.value = preset.rule;
+  option.label = preset.name;
+  rulePresetList.append(option);
+}
+ruleInput.value = ruleParam;
+if (ruleParamError) {
+  ruleInput.setCustomValidity(ruleParamError);
+  ruleInput.reportValidity();
+}
+ruleInput.addEventListener('change', () => {
+  try {
+    life.setRule(ruleInput.value);
+    ruleInput.setCustomValidity('');
+  } catch (error) {
+    ruleInput.setCustomValidity((error as Error).message);
+    ruleInput.reportValidity();
+  }
+});
+
+initLife(initPattern, seedParam !== null ? parseSeed(seedParam) : undefined);
+
+// Steps are computed at the set speed, but no more than this many per frame,
+// since the CPU is usually the bottleneck here.
+const MAX_STEPS_PER_FRAME = 10;
+let lastLifeStep: number | undefined;
+function render(ts: number) {
+  if (lastLifeStep === undefined) {
+    lastLifeStep = ts;
+  }
+  const lifeStepMs = 1000 / settings.lifeStepsPerSecond;
+  if (!gotoController && ts >= lastLifeStep + lifeStepMs) {
+    life.update(Math.min(Math.floor((ts - lastLifeStep) / lifeStepMs), MAX_STEPS_PER_FRAME));
+    lastLifeStep = ts;
+  }
+
+  const { start, end } = life.history;
+  historyScrub.min = String(start);
+  historyScrub.max = String(end);
+  historyScrub.value = String(life.step);
+  generationElement.innerText = `Gen ${life.step}`;
+  lifeBackButton.disabled = !life.history.has(life.step - 1);
+  const stats = life.currentStats();
+  populationElement.innerText = stats
+    ? `Pop ${stats.population} (+${stats.births} −${stats.deaths})`
+    : 'Pop ?';
+  populationChart.draw(life.stats, life.step);
+
+  view.render(life.cellStateArray, {
+    states: life.rule.states,
+    ageMode: life.countsAges(),
+    continuous: Boolean(life.continuousRule),
+  });
+  requestAnimationFrame(render);
+}
+requestAnimationFrame(render);
@@ -0,0 +1,59 @@
+// WebGPU shaders for the flat 2D map of the whole Life grid. A single
+// triangle covers the canvas, and the fragment shader looks up the cell under
+// each pixel.
+
+struct Uniforms {
+  gridSize: vec2f, // In cells
+  origin: vec2f, // Position of the grid's top left corner, in pixels
+  cellSize: f32, // Width and height of a cell, in pixels
+  // Number of states of the Life rule, whether the states of live cells are
+  // ages, and whether cells have continuous values (see life.wgsl).
+  states: u32,
+  ageMode: u32,
+  continuous: u32,
+};
+
+@group(0) @binding(0) var<uniform> uni: Uniforms;
+@group(0) @binding(1) var<storage> cellStates: array<u32>;
+
+// Like MIN_VISIBLE_VALUE in solidColorLit.wgsl.
+const MIN_VISIBLE_VALUE = 0.02;
+
+@vertex fn vs(@builtin(vertex_index) vNdx: u32) -> @builtin(position) vec4f {
+  let positions = array(vec2f(-1, -1), vec2f(3, -1), vec2f(-1, 3));
+  return vec4f(positions[vNdx], 0, 1);
+}
+
+// Adjusts the color of a cell according to its state, like cellColor in
+// solidColorLit.wgsl.
+fn cellColor(color: vec3f, state: u32) -> vec3f {
+  if (uni.continuous != 0) {
+    return mix(vec3f(0.1, 0.15, 0.4), color, bitcast<f32>(state));
+  }
+  if (uni.ageMode != 0) {
+    return mix(vec3f(1, 0.95, 0.7), color, 1 - exp(-f32(state - 1) / 16));
+  }
+  if (state >= 2 && state < uni.states) {
+    let dying = f32(state - 1) / f32(uni.states - 1);
+    return mix(color * 0.8, vec3f(0.1, 0.15, 0.4), dying);
+  }
+  return color;
+}
+
+@fragment fn fs(@builtin(position) pixel: vec4f) -> @location(0) vec4f {
+  let cell = (pixel.xy - uni.origin) / uni.cellSize;
+  if (any(cell < vec2f(0)) || any(cell >= uni.gridSize)) {
+    return vec4f(0, 0, 0, 1);
+  }
+  let cellIndex = u32(cell.y) * u32(uni.gridSize.x) + u32(cell.x);
+  let state = cellStates[cellIndex];
+  var color = vec3f(0.08, 0.1, 0.16);
+  if (state != 0 && (uni.continuous == 0 || bitcast<f32>(state) >= MIN_VISIBLE_VALUE)) {
+    color = cellColor(vec3f(0.85, 0.75, 0.6), state);
+  }
+  // Draw grid lines when zoomed in far enough to see them.
+  if (uni.cellSize >= 6 && any(fract(cell) * uni.cellSize < vec2f(1))) {
+    color *= 0.7;
+  }
+  return vec4f(color, 1);
+}
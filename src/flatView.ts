@@ -0,0 +1,277 @@
+/** A flat 2D map of the whole Life grid, drawn from the same cell state buffer
+ * as the 3D view. Arrows along the edges show how they are glued together. */
+
+import flatMapWGSL from './flatMap.wgsl?raw';
+import { type EdgeGluing, type Topology, edgeGluing } from './topology';
+
+// Space around the grid for the edge markings, in CSS pixels.
+const MARGIN = 24;
+
+export class FlatView {
+  device: GPUDevice;
+  canvas: HTMLCanvasElement;
+  overlay: HTMLCanvasElement; // 2D canvas on top, for the edge markings
+  context: GPUCanvasContext;
+  pipeline: GPURenderPipeline;
+  uniformBuffer: GPUBuffer;
+  grid_size_x: number;
+  grid_size_y: number;
+  topology: Topology;
+  zoom = 1;
+  panX = 0; // In device pixels
+  panY = 0;
+  // The overlay only needs to be redrawn when the view changes.
+  overlayKey = '';
+
+  constructor(
+    device: GPUDevice,
+    canvas: HTMLCanvasElement,
+    overlay: HTMLCanvasElement,
+    format: GPUTextureFormat,
+    gridSizeX: number,
+    gridSizeY: number,
+    topology: Topology,
+  ) {
+    this.device = device;
+    this.canvas = canvas;
+    this.overlay = overlay;
+    this.grid_size_x = gridSizeX;
+    this.grid_size_y = gridSizeY;
+    this.topology = topology;
+    this.context = canvas.getContext('webgpu') as GPUCanvasContext;
+    this.context.configure({ device, format });
+    const module = device.createShaderModule({
+      label: 'flat map shaders',
+      code: flatMapWGSL,
+    });
+    this.pipeline = device.createRenderPipeline({
+      label: 'flat map pipeline',
+      layout: 'auto',
+      vertex: { module },
+      fragment: { module, targets: [{ format }] },
+    });
+    this.uniformBuffer = device.createBuffer({
+      label: 'flat map uniforms',
+      size: 8 * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.addEventListeners();
+  }
+
+  /** Changes the size and topology of the grid being shown. */
+  setGrid(gridSizeX: number, gridSizeY: number, topology: Topology) {
+    this.grid_size_x = gridSizeX;
+    this.grid_size_y = gridSizeY;
+    this.topology = topology;
+    this.overlayKey = '';
+  }
+
+  /** Mouse wheel zooms (around the mouse position), dragging pans, and double
+   * clicking resets the view. */
+  private addEventListeners() {
+    let dragging = false;
+    let lastX = 0;
+    let lastY = 0;
+    this.overlay.addEventListener('wheel', (ev) => {
+      ev.preventDefault();
+      const factor = Math.min(Math.max(1 - ev.deltaY * 0.001, 0.5), 2);
+      const newZoom = Math.min(Math.max(this.zoom * factor, 1), 64);
+      // Keep the point under the mouse in the same place.
+      const rect = this.overlay.getBoundingClientRect();
+      const dpr = window.devicePixelRatio;
+      const mouseX = (ev.clientX - rect.left) * dpr - this.canvas.width / 2;
+      const mouseY = (ev.clientY - rect.top) * dpr - this.canvas.height / 2;
+      this.panX = mouseX - (mouseX - this.panX) * newZoom / this.zoom;
+      this.panY = mouseY - (mouseY - this.panY) * newZoom / this.zoom;
+      this.zoom = newZoom;
+    });
+    this.overlay.addEventListener('mousedown', (ev) => {
+      ev.preventDefault();
+      dragging = true;
+      lastX = ev.clientX;
+      lastY = ev.clientY;
+    });
+    window.addEventListener('mousemove', (ev) => {
+      if (dragging) {
+        this.panX += (ev.clientX - lastX) * window.devicePixelRatio;
+        this.panY += (ev.clientY - lastY) * window.devicePixelRatio;
+        lastX = ev.clientX;
+        lastY = ev.clientY;
+      }
+    });
+    window.addEventListener('mouseup', () => {
+      dragging = false;
+    });
+    this.overlay.addEventListener('dblclick', () => {
+      this.zoom = 1;
+      this.panX = 0;
+      this.panY = 0;
+    });
+  }
+
+  /** Returns the size of a cell and the position of the top left corner of
+   * the grid, in device pixels. */
+  private layout(): { cellSize: number; originX: number; originY: number } {
+    const margin = MARGIN * window.devicePixelRatio;
+    const fitCellSize = Math.max(0, Math.min(
+      (this.canvas.width - 2 * margin) / this.grid_size_x,
+      (this.canvas.height - 2 * margin) / this.grid_size_y,
+    ));
+    const cellSize = fitCellSize * this.zoom;
+    return {
+      cellSize,
+      originX: this.canvas.width / 2 + this.panX - this.grid_size_x * cellSize / 2,
+      originY: this.canvas.height / 2 + this.panY - this.grid_size_y * cellSize / 2,
+    };
+  }
+
+  /** Draws the map, showing the cells in the given buffer. `states`,
+   * `ageMode` and `continuous` say how to color them (see ToroidalLife). */
+  render(cellState: GPUBuffer, states: number, ageMode: boolean, continuous: boolean) {
+    const dpr = window.devicePixelRatio;
+    for (const canvas of [this.canvas, this.overlay]) {
+      const width = Math.max(1, Math.floor(canvas.clientWidth * dpr));
+      const height = Math.max(1, Math.floor(canvas.clientHeight * dpr));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+    }
+    const { cellSize, originX, originY } = this.layout();
+    const uniformValues = new ArrayBuffer(8 * 4);
+    new Float32Array(uniformValues, 0, 5).set([
+      this.grid_size_x, this.grid_size_y, originX, originY, cellSize,
+    ]);
+    new Uint32Array(uniformValues, 5 * 4, 3).set([
+      states, ageMode ? 1 : 0, continuous ? 1 : 0,
+    ]);
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, uniformValues);
+
+    const encoder = this.device.createCommandEncoder();
+    const pass = encoder.beginRenderPass({
+      label: 'flat map renderPass',
+      colorAttachments: [{
+        view: this.context.getCurrentTexture().createView(),
+        clearValue: [0, 0, 0, 1],
+        loadOp: 'clear',
+        storeOp: 'store',
+      }],
+    });
+    pass.setPipeline(this.pipeline);
+    pass.setBindGroup(0, this.device.createBindGroup({
+      label: 'flat map bind group',
+      layout: this.pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: cellState } },
+      ],
+    }));
+    pass.draw(3);
+    pass.end();
+    this.device.queue.submit([encoder.finish()]);
+
+    const overlayKey = [this.overlay.width, this.overlay.height, cellSize, originX, originY].join();
+    if (overlayKey !== this.overlayKey) {
+      this.overlayKey = overlayKey;
+      this.drawEdges(cellSize, originX, originY);
+    }
+  }
+
+  /** Draws the edge markings on the overlay canvas, in the usual style for
+   * fundamental polygons: edges with matching arrows are glued together so
+   * the arrows line up. Edges that aren't glued to anything are drawn as solid
+   * red lines. */
+  private drawEdges(cellSize: number, originX: number, originY: number) {
+    const ctx = this.overlay.getContext('2d')!;
+    const dpr = window.devicePixelRatio;
+    ctx.clearRect(0, 0, this.overlay.width, this.overlay.height);
+    const width = this.grid_size_x * cellSize;
+    const height = this.grid_size_y * cellSize;
+    const gap = 8 * dpr; // Distance of the arrows from the grid
+    const gluing = edgeGluing(this.topology);
+    ctx.lineWidth = 2 * dpr;
+
+    // Left and right edges, marked with single arrows.
+    this.drawEdgePair(
+      ctx, gluing.x, 1,
+      [originX - gap, originY], [originX + width + gap, originY], [0, height],
+    );
+    // Top and bottom edges, marked with double arrows.
+    this.drawEdgePair(
+      ctx, gluing.y, 2,
+      [originX, originY - gap], [originX, originY + height + gap], [width, 0],
+    );
+  }
+
+  /** Draws the markings for one pair of edges. Each edge starts at the given
+   * point and goes along the given vector. */
+  private drawEdgePair(
+    ctx: CanvasRenderingContext2D,
+    gluing: EdgeGluing,
+    arrowCount: number,
+    start1: [number, number],
+    start2: [number, number],
+    [dx, dy]: [number, number],
+  ) {
+    if (!gluing.glued) {
+      ctx.strokeStyle = '#c33';
+      for (const [x, y] of [start1, start2]) {
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + dx, y + dy);
+        ctx.stroke();
+      }
+      return;
+    }
+    // With a half flip, each half of the edge is glued in reverse to the same
+    // half of the opposite edge, so each half gets its own arrows.
+    const segments = gluing.halfFlip ? 2 : 1;
+    ctx.strokeStyle = '#aaa';
+    ctx.fillStyle = '#aaa';
+    for (const [edge, [x, y]] of [start1, start2].entries()) {
+      const reversed = edge === 1 && gluing.flipped;
+      for (let segment = 0; segment < segments; segment++) {
+        const x0 = x + dx * segment / segments;
+        const y0 = y + dy * segment / segments;
+        const x1 = x + dx * (segment + 1) / segments;
+        const y1 = y + dy * (segment + 1) / segments;
+        ctx.beginPath();
+        ctx.moveTo(x0, y0);
+        ctx.lineTo(x1, y1);
+        ctx.stroke();
+        this.drawArrowheads(
+          ctx, arrowCount,
+          reversed ? [x1, y1] : [x0, y0],
+          reversed ? [x0, y0] : [x1, y1],
+        );
+      }
+    }
+  }
+
+  /** Draws arrowheads in the middle of a line, pointing from start to end. */
+  private drawArrowheads(
+    ctx: CanvasRenderingContext2D,
+    count: number,
+    [x0, y0]: [number, number],
+    [x1, y1]: [number, number],
+  ) {
+    const dpr = window.devicePixelRatio;
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    if (length < 1) {
+      return;
+    }
+    const ux = (x1 - x0) / length;
+    const uy = (y1 - y0) / length;
+    const size = 7 * dpr;
+    for (let n = 0; n < count; n++) {
+      const tipX = (x0 + x1) / 2 + ux * size * (n - (count - 2) / 2);
+      const tipY = (y0 + y1) / 2 + uy * size * (n - (count - 2) / 2);
+      ctx.beginPath();
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(tipX - ux * size - uy * size / 2, tipY - uy * size + ux * size / 2);
+      ctx.lineTo(tipX - ux * size + uy * size / 2, tipY - uy * size - ux * size / 2);
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/** Parsing of math formulas typed in by the user, like "(4 + cos(u)) * sin(v)",
+ * for defining shapes in the app. Formulas are compiled into plain functions
+ * without using eval, so they can't do anything but arithmetic. The functions
+ * work on dual numbers (see dual.ts), so they give derivatives too. */
+
+import * as dual from './dual';
+import { type Dual, type DualArg } from './dual';
+
+/** A parsed formula. */
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; index: number }
+  | { kind: 'unary'; op: '-'; arg: Node }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+/** The functions that can be used in formulas. All but min and max take a
+ * fixed number of arguments (their length). */
+const functions: Record<string, (...args: DualArg[]) => Dual> = {
+  sin: dual.sin,
+  cos: dual.cos,
+  tan: dual.tan,
+  asin: dual.asin,
+  acos: dual.acos,
+  atan: dual.atan,
+  atan2: dual.atan2,
+  sinh: dual.sinh,
+  cosh: dual.cosh,
+  tanh: dual.tanh,
+  exp: dual.exp,
+  log: dual.log,
+  sqrt: dual.sqrt,
+  abs: dual.abs,
+  sign: dual.sign,
+  floor: dual.floor,
+  ceil: dual.ceil,
+  min: dual.min,
+  max: dual.max,
+  pow: dual.pow,
+};
+
+const constants: Record<string, number> = {
+  pi: Math.PI,
+  tau: 2 * Math.PI,
+  e: Math.E,
+};
+
+/** Names of the functions that can be used in formulas, for help text. */
+export const formulaFunctions = Object.keys(functions);
+
+type Token = { text: string; position: number };
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const tokenPattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/^(),]))/iy;
+  let position = 0;
+  while (position < text.length) {
+    if (/^\s*$/.test(text.slice(position))) {
+      break;
+    }
+    tokenPattern.lastIndex = position;
+    const match = tokenPattern.exec(text);
+    if (!match) {
+      throw new Error(`Unexpected character in formula: "${text.slice(position).trim()[0]}"`);
+    }
+    const tokenText = match[1] ?? match[2] ?? match[3];
+    tokens.push({
+      text: tokenText === '**' ? '^' : tokenText,
+      position: tokenPattern.lastIndex - tokenText.length,
+    });
+    position = tokenPattern.lastIndex;
+  }
+  return tokens;
+}
+
+/** Recursive descent parser for formulas. The usual precedence rules apply,
+ * with ^ (or **) for exponentiation, which is right associative and binds
+ * more tightly than unary minus, so -u^2 is -(u^2). */
+class Parser {
+  tokens: Token[];
+  variables: string[];
+  next = 0;
+
+  constructor(tokens: Token[], variables: string[]) {
+    this.tokens = tokens;
+    this.variables = variables;
+  }
+
+  peek(): string | undefined {
+    return this.tokens[this.next]?.text;
+  }
+
+  expect(text: string) {
+    if (this.peek() !== text) {
+      this.fail(`Expected "${text}"`);
+    }
+    this.next++;
+  }
+
+  fail(message: string): never {
+    const token = this.tokens[this.next];
+    throw new Error(token
+      ? `${message} at "${token.text}" (character ${token.position + 1})`
+      : `${message} at the end of the formula`);
+  }
+
+  parseFormula(): Node {
+    const node = this.parseSum();
+    if (this.next < this.tokens.length) {
+      this.fail('Unexpected text');
+    }
+    return node;
+  }
+
+  parseSum(): Node {
+    let node = this.parseProduct();
+    for (let op = this.peek(); op === '+' || op === '-'; op = this.peek()) {
+      this.next++;
+      node = { kind: 'binary', op, left: node, right: this.parseProduct() };
+    }
+    return node;
+  }
+
+  parseProduct(): Node {
+    let node = this.parseUnary();
+    for (let op = this.peek(); op === '*' || op === '/'; op = this.peek()) {
+      this.next++;
+      node = { kind: 'binary', op, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  parseUnary(): Node {
+    if (this.peek() === '-') {
+      this.next++;
+      return { kind: 'unary', op: '-', arg: this.parseUnary() };
+    }
+    if (this.peek() === '+') {
+      this.next++;
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  parsePower(): Node {
+    const base = this.parsePrimary();
+    if (this.peek() === '^') {
+      this.next++;
+      return { kind: 'binary', op: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  parsePrimary(): Node {
+    const text = this.peek();
+    if (text === undefined) {
+      this.fail('Expected a number, variable or function');
+    }
+    if (text === '(') {
+      this.next++;
+      const node = this.parseSum();
+      this.expect(')');
+      return node;
+    }
+    if (/^[\d.]/.test(text)) {
+      this.next++;
+      return { kind: 'number', value: Number(text) };
+    }
+    if (/^[a-z_]/i.test(text)) {
+      const name = text.toLowerCase();
+      const index = this.variables.indexOf(name);
+      if (index >= 0) {
+        this.next++;
+        return { kind: 'variable', index };
+      }
+      if (Object.hasOwn(constants, name)) {
+        this.next++;
+        return { kind: 'number', value: constants[name] };
+      }
+      if (Object.hasOwn(functions, name)) {
+        this.next++;
+        this.expect('(');
+        const args = [this.parseSum()];
+        while (this.peek() === ',') {
+          this.next++;
+          args.push(this.parseSum());
+        }
+        this.expect(')');
+        const arity = functions[name].length;
+        if (name !== 'min' && name !== 'max' && args.length !== arity) {
+          throw new Error(`${name} takes ${arity} argument${arity === 1 ? '' : 's'}`);
+        }
+        return { kind: 'call', name, args };
+      }
+      this.fail('Unknown name');
+    }
+    this.fail('Expected a number, variable or function');
+  }
+}
+
+const binaryOps: Record<'+' | '-' | '*' | '/' | '^', (a: DualArg, b: DualArg) => Dual> = {
+  '+': dual.add,
+  '-': dual.sub,
+  '*': dual.mul,
+  '/': dual.div,
+  '^': dual.pow,
+};
+
+/** Turns a parsed formula into a function of the variables. */
+function compileNode(node: Node): (values: Dual[]) => DualArg {
+  switch (node.kind) {
+    case 'number': {
+      const { value } = node;
+      return () => value;
+    }
+    case 'variable': {
+      const { index } = node;
+      return (values) => values[index];
+    }
+    case 'unary': {
+      const arg = compileNode(node.arg);
+      return (values) => dual.neg(arg(values));
+    }
+    case 'binary': {
+      const op = binaryOps[node.op];
+      const left = compileNode(node.left);
+      const right = compileNode(node.right);
+      return (values) => op(left(values), right(values));
+    }
+    case 'call': {
+      const fn = functions[node.name];
+      const args = node.args.map(compileNode);
+      return (values) => fn(...args.map((arg) => arg(values)));
+    }
+  }
+}
+
+/** Compiles a formula into a function of the given variables (lowercase
+ * names, e.g. ['u', 'v']), which are passed to it in the same order. Names
+ * are case insensitive. Besides the variables, formulas can use numbers, the
+ * constants pi, tau and e, + - * / and ^ (or **), parentheses, and the
+ * functions in formulaFunctions. The result has the exact derivatives of the
+ * formula with respect to the variables passed to it as dual numbers. Throws
+ * an Error if the formula can't be parsed. */
+export function compileFormula(
+  text: string,
+  variables: string[],
+): (...values: Dual[]) => Dual {
+  const tokens = tokenize(text);
+  const node = new Parser(tokens, variables).parseFormula();
+  const fn = compileNode(node);
+  return (...values) => dual.add(fn(values));
+}
@@ -0,0 +1,106 @@
+/** Keeps recent generations of a Life simulation in a ring buffer, so that it
+ * can be rewound. */
+
+// How much memory to use for the history, at most.
+const MAX_HISTORY_BYTES = 128 * 1024 * 1024;
+// How many generations to keep, at most, even if the grid is small.
+const MAX_HISTORY_GENERATIONS = 1000;
+
+export class LifeHistory {
+  device: GPUDevice | undefined; // Only needed when running on the GPU
+  cellCount: number;
+  capacity: number; // Number of generations that can be kept
+  // Earliest and latest steps that are available. After rewinding, the steps
+  // after the current one are still available until something changes.
+  start = 0;
+  end = 0;
+  // Storage for each slot in the ring; step n is kept in slot n % capacity.
+  // Slots are allocated when first used. Depending on whether the simulation
+  // runs on the GPU or the CPU, either the buffer or the array methods below
+  // are used.
+  gpuSlots: GPUBuffer[] = [];
+  cpuSlots: Uint32Array<ArrayBuffer>[] = [];
+
+  constructor(device: GPUDevice | undefined, cellCount: number) {
+    this.device = device;
+    this.cellCount = cellCount;
+    this.capacity = Math.max(2, Math.min(
+      MAX_HISTORY_GENERATIONS,
+      Math.floor(MAX_HISTORY_BYTES / (cellCount * Uint32Array.BYTES_PER_ELEMENT)),
+    ));
+  }
+
+  has(step: number): boolean {
+    return step >= this.start && step <= this.end;
+  }
+
+  /** Forgets all generations, and starts over at the given step. */
+  reset(step: number) {
+    this.start = step;
+    this.end = step;
+  }
+
+  /** Discards any steps after the given one, because they may no longer be
+   * accurate. */
+  truncate(step: number) {
+    this.end = Math.max(this.start, Math.min(this.end, step));
+  }
+
+  /** Updates the range of available steps after recording the given step.
+   * Later steps are discarded because they may no longer be accurate. */
+  private recorded(step: number) {
+    if (!this.has(step) && step !== this.end + 1) {
+      this.reset(step);
+    }
+    this.end = step;
+    this.start = Math.max(this.start, step - this.capacity + 1);
+  }
+
+  private gpuSlot(step: number): GPUBuffer {
+    const slot = step % this.capacity;
+    if (!this.gpuSlots[slot]) {
+      this.gpuSlots[slot] = this.device!.createBuffer({
+        label: `History slot ${slot}`,
+        size: this.cellCount * Uint32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+      });
+    }
+    return this.gpuSlots[slot];
+  }
+
+  /** Records the contents of a GPU buffer as the given step, using the given
+   * command encoder to copy it. */
+  recordBuffer(encoder: GPUCommandEncoder, source: GPUBuffer, step: number) {
+    encoder.copyBufferToBuffer(source, 0, this.gpuSlot(step), 0, source.size);
+    this.recorded(step);
+  }
+
+  /** Records the contents of an array as the given step. */
+  recordArray(cells: Uint32Array, step: number) {
+    const slot = step % this.capacity;
+    if (!this.cpuSlots[slot]) {
+      this.cpuSlots[slot] = new Uint32Array(this.cellCount);
+    }
+    this.cpuSlots[slot].set(cells);
+    this.recorded(step);
+  }
+
+  /** Copies the given step into a GPU buffer, using the given command
+   * encoder. The step must be available. */
+  restoreBuffer(encoder: GPUCommandEncoder, target: GPUBuffer, step: number) {
+    encoder.copyBufferToBuffer(this.gpuSlot(step), 0, target, 0, target.size);
+  }
+
+  /** Copies the given step into an array. The step must be available. */
+  restoreArray(target: Uint32Array, step: number) {
+    target.set(this.cpuSlots[step % this.capacity]);
+  }
+
+  destroy() {
+    for (const buffer of this.gpuSlots) {
+      buffer?.destroy();
+    }
+    this.gpuSlots = [];
+    this.cpuSlots = [];
+  }
+}
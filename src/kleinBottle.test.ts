@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { variables } from './dual';
+import { type Surface, formulaSurface, kleinBottle, listSurfaces } from './kleinBottle';
+
+const builtIn = listSurfaces();
+const formula = formulaSurface({
+  name: 'test',
+  x: '(4 + cos(v) * abs(sin(u))^1.5) * cos(u)',
+  y: 'sin(v) * exp(cos(u) / 2) + atan2(sin(u), 2 + cos(v))',
+  z: '(4 + cos(v) * sqrt(2 + sin(u))) * sin(u) / (1 + v^2)',
+  scale: 8,
+  topology: 'torus',
+});
+
+describe.each([...builtIn, formula].map((surface): [string, Surface] => [surface.name, surface]))(
+  'the %s surface',
+  (_name, surface) => {
+    it('has derivatives that match central differences', () => {
+      const h = 1e-5;
+      const position = (u: number, v: number) =>
+        surface.coord(...variables(u, v)).map(({ value }) => value);
+      const samples = 12;
+      for (let i = 0; i < samples; i++) {
+        for (let j = 0; j < samples; j++) {
+          // Offset from the grid points, to stay away from places like u = 0
+          // and u = pi where some surfaces aren't smooth.
+          const u = (i + 0.3) / samples * 2 * Math.PI;
+          const v = (j + 0.6) / samples * 2 * Math.PI;
+          const point = surface.coord(...variables(u, v));
+          const uPlus = position(u + h, v);
+          const uMinus = position(u - h, v);
+          const vPlus = position(u, v + h);
+          const vMinus = position(u, v - h);
+          point.forEach(({ du, dv }, axis) => {
+            const numericDu = (uPlus[axis] - uMinus[axis]) / (2 * h);
+            const numericDv = (vPlus[axis] - vMinus[axis]) / (2 * h);
+            expect(Math.abs(du - numericDu)).toBeLessThan(1e-5 * (1 + Math.abs(numericDu)));
+            expect(Math.abs(dv - numericDv)).toBeLessThan(1e-5 * (1 + Math.abs(numericDv)));
+          });
+        }
+      }
+    });
+  },
+);
+
+it('includes all the built-in surfaces in the test', () => {
+  expect(builtIn.map(({ name }) => name)).toEqual([
+    'best', 'wikiimproved', 'wiki', 'mathcurve', 'figure8', 'pinched', 'torus', 'tube',
+    'rectangle', 'bigsail',
+  ]);
+});
+
+describe('the pinched torus', () => {
+  it('has the same normals at u = 0 and u = 2*pi', () => {
+    const width = 64;
+    const height = 32;
+    const { vertices } = kleinBottle(width, height, 'pinched');
+    const normal = (i: number, j: number) => {
+      const offset = (j * (width + 1) + i) * 14 + 3;
+      return [...vertices.subarray(offset, offset + 3)];
+    };
+    for (let j = 0; j <= height; j++) {
+      // The normal isn't defined where the pinch meets the fold of the tube.
+      if (j === height / 4 || j === height * 3 / 4) {
+        continue;
+      }
+      const start = normal(0, j);
+      const end = normal(width, j);
+      expect(Math.hypot(...start)).toBeCloseTo(1, 6);
+      // Along the pinch, the surface is flattened onto the y = 0 plane.
+      expect(Math.abs(start[1])).toBeCloseTo(1, 6);
+      end.forEach((value, axis) => expect(value).toBeCloseTo(start[axis], 6));
+    }
+  });
+});
@@ -1,13 +1,29 @@
+import { vec3 } from 'wgpu-matrix';
 import {
-  mat3,
-  vec3,
-} from 'wgpu-matrix';
+  type Dual,
+  type DualVec3,
+  add,
+  constant,
+  cos,
+  mul,
+  neg,
+  pow,
+  sin,
+  sub,
+  abs,
+  variables,
+} from './dual';
+import { compileFormula } from './formula';
+import { type Topology, topologies } from './topology';
 
 // Klein bottle parameterizations. In general, you pass in values of u and v
 // and the function returns [x, y, z] coordinates. If [u,v] pairs cover the
 // square from [0, 0] to [2*pi, 2*pi], the returned coordinates make a complete
 // Klein bottle (or, in a couple cases, some other shape). Each function takes
 // different additional arguments to modify the shape in different ways.
+// They're written with dual numbers (see dual.ts), so that the exact partial
+// derivatives come along with the coordinates; those give the tangents and
+// normals.
 
 // Parameters for kleinBottleWikipedia function below. I really don't
 // understand most of these. The narrow part of the neck gets wider when you
@@ -29,49 +45,55 @@ type WikipediaParams = {
 // Bottle shape from https://en.wikipedia.org/wiki/Klein_bottle#Bottle_shape.
 // The narrow part is extremely narrow if you use the original coefficients.
 function kleinBottleWikipedia(
-  u: number,
-  v: number,
+  u: Dual,
+  v: Dual,
   tubeRadius: number,
   params: Partial<WikipediaParams> = {},
-): [number, number, number] {
+): DualVec3 {
   const { a, b, c, d, e, f, g, xfac, yfac, zfac } = {
     // Original coefficients shown on Wikipedia.
     a: 3, b: 30, c: 90, d: 60, e: 5, f: 48, g: 80,
     xfac: -2/15 * tubeRadius, yfac: -1/15 * tubeRadius, zfac: 2/15 * tubeRadius,
     ...params,
   };
-  const sinu = Math.sin(u / 2); // u is from 0 to pi in Wikipedia formula
-  const cosu = Math.cos(u / 2);
-  const sinv = Math.sin(v);
-  const cosv = Math.cos(v);
+  const sinu = sin(mul(u, 1 / 2)); // u is from 0 to pi in Wikipedia formula
+  const cosu = cos(mul(u, 1 / 2));
+  const sinv = sin(v);
+  const cosv = cos(v);
   return [
-    xfac * cosu * (
-      a * cosv
-      - b * sinu
-      + c * Math.pow(cosu, 4) * sinu
-      - d * Math.pow(cosu, 6) * sinu
-      + e * cosu * cosv * sinu
-    ) + 1.2 * xfac, // center on x axis
-    yfac * sinu * (
-      a * cosv
-      - a * Math.pow(cosu, 2) * cosv
-      - f * Math.pow(cosu, 4) * cosv
-      + f * Math.pow(cosu, 6) * cosv
-      - d * sinu
-      + e * cosu * cosv * sinu
-      - e * Math.pow(cosu, 3) * cosv * sinu
-      - g * Math.pow(cosu, 5) * cosv * sinu
-      + g * Math.pow(cosu, 7) * cosv * sinu
-    ) + 30 * yfac, // center on y axis
-    zfac * (a + e * cosu * sinu) * sinv
+    add(
+      mul(xfac, cosu, add(
+        mul(a, cosv),
+        mul(-b, sinu),
+        mul(c, pow(cosu, 4), sinu),
+        mul(-d, pow(cosu, 6), sinu),
+        mul(e, cosu, cosv, sinu),
+      )),
+      1.2 * xfac, // center on x axis
+    ),
+    add(
+      mul(yfac, sinu, add(
+        mul(a, cosv),
+        mul(-a, pow(cosu, 2), cosv),
+        mul(-f, pow(cosu, 4), cosv),
+        mul(f, pow(cosu, 6), cosv),
+        mul(-d, sinu),
+        mul(e, cosu, cosv, sinu),
+        mul(-e, pow(cosu, 3), cosv, sinu),
+        mul(-g, pow(cosu, 5), cosv, sinu),
+        mul(g, pow(cosu, 7), cosv, sinu),
+      )),
+      30 * yfac, // center on y axis
+    ),
+    mul(zfac, add(a, mul(e, cosu, sinu)), sinv),
   ];
 }
 
 // The Wikipedia parameterization, but wider at the narrowest part of the tube.
 // This is the best version I've managed.
 function kleinBottleWikipediaImproved(
-  u: number, v: number, tubeRadius: number,
-): [number, number, number] {
+  u: Dual, v: Dual, tubeRadius: number,
+): DualVec3 {
   return kleinBottleWikipedia(u, v, tubeRadius, { a: 8 });
 }
 
@@ -79,31 +101,31 @@ function kleinBottleWikipediaImproved(
 // Pretty decent classic bottle shape, except for a sort of abrupt "corner" on
 // the wider side.
 function kleinBottleMathcurve(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
+): DualVec3 {
   const a = ringRadius / 3, b = ringRadius / 2, c = tubeRadius * 2 / 3;
-  const ru = c * (1 - Math.cos(u) / 2);
-  if (u < Math.PI) {
+  const ru = mul(c, sub(1, mul(cos(u), 1 / 2)));
+  if (u.value < Math.PI) {
     return [
-      (a * (1 + Math.sin(u)) + ru * Math.cos(v)) * Math.cos(u),
-      (b + ru * Math.cos(v)) * Math.sin(u),
-      ru * Math.sin(v),
+      mul(add(mul(a, add(1, sin(u))), mul(ru, cos(v))), cos(u)),
+      mul(add(b, mul(ru, cos(v))), sin(u)),
+      mul(ru, sin(v)),
     ];
   } else {
     return [
-      a * (1 + Math.sin(u)) * Math.cos(u) - ru * Math.cos(v),
-      b * Math.sin(u),
-      ru * Math.sin(v),
+      sub(mul(a, add(1, sin(u)), cos(u)), mul(ru, cos(v))),
+      mul(b, sin(u)),
+      mul(ru, sin(v)),
     ];
   };
 }
 
 // Figure 8 immersion.
 function kleinBottleFigure8(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
+): DualVec3 {
   // The modification of v here rotates the whole thing around the circular
   // "axis" of the tube, which makes the "twisted" ends of the plane match up
   // with each other correctly in the Life implementation. It might have made
@@ -111,133 +133,305 @@ function kleinBottleFigure8(
   // the Life implementation in life.wgsl could have just done a simple
   // inversion of the y coordinates at the ends, i.e. y = height - 1 - y
   // instead of y = height / 2 - 1 - y.
-  const v1 = v + Math.PI / 2;
+  const v1 = add(v, Math.PI / 2);
   const r = ringRadius / tubeRadius;
-  const cosu2sinv = Math.cos(u / 2) * Math.sin(v1);
-  const sinu2sin2v = Math.sin(u / 2) * Math.sin(2 * v1);
-  const rad = r + cosu2sinv - sinu2sin2v;
-  const x = rad * Math.cos(u);
-  const z = rad * Math.sin(u);
-  const y = Math.sin(u/2) * Math.sin(v1) + Math.cos(u / 2) * Math.sin(2 * v1);
-  return [x * tubeRadius, y * tubeRadius, z * tubeRadius];
+  const cosu2sinv = mul(cos(mul(u, 1 / 2)), sin(v1));
+  const sinu2sin2v = mul(sin(mul(u, 1 / 2)), sin(mul(2, v1)));
+  const rad = sub(add(r, cosu2sinv), sinu2sin2v);
+  const x = mul(rad, cos(u));
+  const z = mul(rad, sin(u));
+  const y = add(mul(sin(mul(u, 1 / 2)), sin(v1)), mul(cos(mul(u, 1 / 2)), sin(mul(2, v1))));
+  return [mul(x, tubeRadius), mul(y, tubeRadius), mul(z, tubeRadius)];
 }
 
 // Torus (i.e., not a Klein bottle).
 function torus(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
-  const circle = [
-    ringRadius + tubeRadius * Math.cos(v),
-    tubeRadius * Math.sin(v),
-    0,
-  ];
-  const rot = mat3.rotationY(u);
-  const pos: [number, number, number] = [0, 0, 0];
-  vec3.transformMat3(circle, rot, pos);
-  return pos;
+): DualVec3 {
+  // A circle in the xy plane, rotated around the y axis by u.
+  const circleX = add(ringRadius, mul(tubeRadius, cos(v)));
+  const circleY = mul(tubeRadius, sin(v));
+  return [mul(circleX, cos(u)), circleY, neg(mul(circleX, sin(u)))];
 }
 
 // Torus that gets pinched together and inverted at one spot, so it is
 // effectively a Klein bottle.
 function pinchedTorus(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
+): DualVec3 {
   // See explanation of the modification of v in kleinBottleFigure8 above.
-  const [x, y, z] = torus(u, v + Math.PI / 2, ringRadius, tubeRadius);
-  return [x, Math.pow(Math.abs(Math.sin(u / 2)), 0.5) * y, z];
+  const [x, y, z] = torus(u, add(v, Math.PI / 2), ringRadius, tubeRadius);
+  // |sin(u / 2)| repeats every 2*pi, so u is reduced to [0, 2*pi) first. Then
+  // it's exactly 0 at the pinch at u = 2*pi, as at u = 0, rather than a tiny
+  // number with a huge derivative.
+  const u0 = sub(u, 2 * Math.PI * Math.floor(u.value / (2 * Math.PI)));
+  return [x, mul(pow(abs(sin(mul(u0, 1 / 2))), 0.5), y), z];
 }
 
 // Claude's cool-looking failed attempt.
 function bigSail(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
+): DualVec3 {
+  const cosv2 = cos(mul(v, 1 / 2));
+  const sinv2 = sin(mul(v, 1 / 2));
   return [
-    (ringRadius + tubeRadius * Math.cos(v / 2) * Math.sin(u) - tubeRadius * Math.sin(v / 2) * Math.sin(2 * u)) - 10,
-    (tubeRadius * Math.sin(v / 2) + tubeRadius * Math.cos(v / 2) * Math.cos(2 * u)),
-    (tubeRadius * Math.cos(v / 2) * Math.cos(u) - tubeRadius * Math.sin(v / 2) * Math.cos(2 * u)),
+    add(ringRadius, mul(tubeRadius, cosv2, sin(u)), mul(-tubeRadius, sinv2, sin(mul(2, u))), -10),
+    add(mul(tubeRadius, sinv2), mul(tubeRadius, cosv2, cos(mul(2, u)))),
+    sub(mul(tubeRadius, cosv2, cos(u)), mul(tubeRadius, sinv2, cos(mul(2, u)))),
   ];
 }
 
 // Just a rectangle, so you get a "flattened" bottle.
 function rectangle(
-  u: number, v: number,
+  u: Dual, v: Dual,
   ringRadius: number, tubeRadius: number,
-): [number, number, number] {
-  return [ringRadius * (u - Math.PI), tubeRadius * (v - Math.PI), 0];
+): DualVec3 {
+  return [mul(ringRadius, sub(u, Math.PI)), mul(tubeRadius, sub(v, Math.PI)), constant(0)];
 }
 
 // Really long tube, so we can pretend it's infinite. Best with x=2048&y=64.
-function tube(u: number, v: number): [number, number, number] {
-  return [200 * (u - Math.PI), 5 * Math.sin(v), 5 * Math.cos(v)];
+function tube(u: Dual, v: Dual): DualVec3 {
+  return [mul(200, sub(u, Math.PI)), mul(5, sin(v)), mul(5, cos(v))];
+}
+
+/** A parametric surface that the Life grid can be drawn on (an "immersion"):
+ * `coord` maps [u, v] in the square from [0, 0] to [2*pi, 2*pi] to [x, y, z],
+ * like the functions above. It's called with the dual numbers returned by
+ * `variables` in dual.ts. */
+export type Surface = {
+  name: string; // Used in the immersion URL parameter
+  label: string; // Shown in the shape menu
+  coord: (u: Dual, v: Dual) => DualVec3;
+  scale: number; // Scale of the model in the 3D view
+  // A grid size that suits the shape, if there's a particular one.
+  grid?: { width: number; height: number };
+  // The topologies that the shape draws correctly. The first is the default.
+  topologies: Topology[];
+  hidden?: boolean; // Not listed in the shape menu
+  formula?: SurfaceFormula; // Set for user-defined surfaces
+};
+
+/** A user-defined surface, as entered in the shape editor. x, y and z are
+ * formulas in terms of u and v (see formula.ts). */
+export type SurfaceFormula = {
+  name: string;
+  x: string;
+  y: string;
+  z: string;
+  scale: number;
+  topology: Topology;
+};
+
+// The built-in surfaces. These choose different convenient shape parameters
+// for each version to make them come out an appropriate size for the default
+// camera position.
+const builtInSurfaces: Surface[] = [
+  {
+    name: 'best',
+    label: 'Default',
+    coord: (u, v) => kleinBottleWikipediaImproved(u, v, 3),
+    scale: 8,
+    topologies: ['klein'],
+  },
+  {
+    name: 'wikiimproved',
+    label: 'Wikipedia (improved)',
+    coord: (u, v) => kleinBottleWikipediaImproved(u, v, 3),
+    scale: 8,
+    topologies: ['klein'],
+    hidden: true, // Same as the default
+  },
+  {
+    name: 'wiki',
+    label: 'Wikipedia',
+    coord: (u, v) => kleinBottleWikipedia(u, v, 3),
+    scale: 8,
+    topologies: ['klein'],
+  },
+  {
+    name: 'mathcurve',
+    label: 'Mathcurve',
+    coord: (u, v) => kleinBottleMathcurve(u, v, 10, 3),
+    scale: 8,
+    topologies: ['klein'],
+  },
+  {
+    name: 'figure8',
+    label: 'Figure 8',
+    coord: (u, v) => kleinBottleFigure8(u, v, 8, 2),
+    scale: 8,
+    topologies: ['klein'],
+  },
+  {
+    name: 'pinched',
+    label: 'Pinched torus',
+    coord: (u, v) => pinchedTorus(u, v, 8, 3),
+    scale: 8,
+    topologies: ['klein'],
+  },
+  {
+    name: 'torus',
+    label: 'Torus',
+    coord: (u, v) => torus(u, v, 8, 3),
+    scale: 8,
+    topologies: ['torus'],
+  },
+  {
+    name: 'tube',
+    label: 'Tube',
+    coord: tube,
+    scale: 8,
+    grid: { width: 2048, height: 64 },
+    topologies: ['cylinder'],
+  },
+  {
+    name: 'rectangle',
+    label: 'Rectangle',
+    coord: (u, v) => rectangle(u, v, 4, 2),
+    scale: 8,
+    // A flat rectangle doesn't show the gluing at all, so it works for
+    // everything.
+    topologies: topologies.map((t) => t.name),
+  },
+  {
+    name: 'bigsail',
+    label: 'Big sail',
+    coord: (u, v) => bigSail(u, v, 10, 3),
+    scale: 8,
+    topologies: ['klein'],
+    hidden: true,
+  },
+];
+
+// All the surfaces, by name, in the order they were registered.
+const surfaces = new Map<string, Surface>();
+for (const surface of builtInSurfaces) {
+  surfaces.set(surface.name, surface);
+}
+
+/** Adds a surface, replacing any user-defined one with the same name. Throws
+ * an Error if the name is taken by a built-in surface. */
+export function registerSurface(surface: Surface) {
+  if (builtInSurfaces.some(({ name }) => name === surface.name)) {
+    throw new Error(`There's already a built-in shape called "${surface.name}"`);
+  }
+  surfaces.set(surface.name, surface);
+}
+
+/** Returns the surface with the given name, or the default one if there's no
+ * such surface. */
+export function getSurface(name: string): Surface {
+  return surfaces.get(name) ?? surfaces.get('best')!;
+}
+
+/** Returns all the registered surfaces, built-in ones first. */
+export function listSurfaces(): Surface[] {
+  return [...surfaces.values()];
+}
+
+/** Returns the topologies that can be drawn correctly using the given
+ * immersion (surface name). The first one is the default. */
+export function immersionTopologies(immersion: string): Topology[] {
+  return getSurface(immersion).topologies;
+}
+
+/** Returns the immersion that is used by default to draw a topology: the
+ * first listed surface for which it's the default, or the rectangle. */
+export function defaultImmersion(topology: Topology): string {
+  return builtInSurfaces.find(
+    (surface) => !surface.hidden && surface.topologies[0] === topology,
+  )?.name ?? 'rectangle';
+}
+
+/** Compiles a user-defined surface. Throws an Error if a formula can't be
+ * parsed, or doesn't give a finite number everywhere it's been tried. */
+export function formulaSurface(formula: SurfaceFormula): Surface {
+  if (!/^[\w-]+$/.test(formula.name)) {
+    throw new Error('Shape names can only contain letters, digits, - and _');
+  }
+  if (!(formula.scale > 0)) {
+    throw new Error('The scale must be a positive number');
+  }
+  const [x, y, z] = (['x', 'y', 'z'] as const).map((axis) => {
+    try {
+      return compileFormula(formula[axis], ['u', 'v']);
+    } catch (error) {
+      throw new Error(`${axis}: ${(error as Error).message}`);
+    }
+  });
+  const coord = (u: Dual, v: Dual): DualVec3 => [x(u, v), y(u, v), z(u, v)];
+  // Check a grid of points, to catch things like division by zero.
+  const samples = 16;
+  for (let i = 0; i <= samples; i++) {
+    for (let j = 0; j <= samples; j++) {
+      const u = i / samples * 2 * Math.PI;
+      const v = j / samples * 2 * Math.PI;
+      if (!coord(...variables(u, v)).every(({ value }) => Number.isFinite(value))) {
+        throw new Error(
+          `The formulas don't give a point at u = ${u.toFixed(2)}, v = ${v.toFixed(2)}`,
+        );
+      }
+    }
+  }
+  return {
+    name: formula.name,
+    label: formula.name,
+    coord,
+    scale: formula.scale,
+    topologies: [formula.topology],
+    formula,
+  };
 }
 
-// Klein bottle coordinates for a parameterization specified by name. This
-// chooses different convenient shape parameters for each version to make them
-// come out an appropriate size for the default camera position.
+type Vec3 = [number, number, number];
+
+/** Returns a point on a surface specified by name, and the partial
+ * derivatives there, i.e. the tangent vectors in the u and v directions (not
+ * normalized). */
+function surfacePoint(
+  u: number, v: number,
+  immersion: string,
+): { position: Vec3; du: Vec3; dv: Vec3 } {
+  const [x, y, z] = getSurface(immersion).coord(...variables(u, v));
+  return {
+    position: [x.value, y.value, z.value],
+    du: [x.du, y.du, z.du],
+    dv: [x.dv, y.dv, z.dv],
+  };
+}
+
+// Klein bottle coordinates for a parameterization (surface) specified by name.
 function kleinBottleCoord(
   u: number, v: number,
   immersion: string,
-): [number, number, number] {
-  switch (immersion) {
-    case 'mathcurve':
-        return kleinBottleMathcurve(u, v, 10, 3);
-    case 'figure8':
-        return kleinBottleFigure8(u, v, 8, 2);
-    case 'torus':
-        return torus(u, v, 8, 3);
-    case 'pinched':
-        return pinchedTorus(u, v, 8, 3);
-    case 'bigsail':
-        return bigSail(u, v, 10, 3);
-    case 'rectangle':
-      return rectangle(u, v, 4, 2);
-    case 'tube':
-      return tube(u, v);
-    case 'wiki':
-      return kleinBottleWikipedia(u, v, 3);
-    case 'best':
-    case 'wikiimproved':
-    default:
-      return kleinBottleWikipediaImproved(u, v, 3);
-  }
+): Vec3 {
+  return surfacePoint(u, v, immersion).position;
 }
 
-// Calculates the tangent vector in the u direction at a given spot on a model.
+// Calculates the unit tangent vector in the u direction at a given spot on a
+// model.
 export function kleinBottleTangentU(
   u: number, v: number,
   immersion: string,
-  epsilon: number = 0.001
-): [number, number, number] {
-  const pos1 = kleinBottleCoord(u - epsilon, v, immersion);
-  const pos2 = kleinBottleCoord(u + epsilon, v, immersion);
-  return vec3.normalize(vec3.subtract(pos2, pos1));
+): Vec3 {
+  return vec3.normalize(surfacePoint(u, v, immersion).du, [0, 0, 0]);
 }
 
-// Calculates the tangent vector in the v direction at a given spot on a model.
+// Calculates the unit tangent vector in the v direction at a given spot on a
+// model.
 export function kleinBottleTangentV(
   u: number, v: number,
   immersion: string,
-  epsilon: number = 0.001
-): [number, number, number] {
-  const pos1 = kleinBottleCoord(u, v - epsilon, immersion);
-  const pos2 = kleinBottleCoord(u, v + epsilon, immersion);
-  return vec3.normalize(vec3.subtract(pos2, pos1));
+): Vec3 {
+  return vec3.normalize(surfacePoint(u, v, immersion).dv, [0, 0, 0]);
 }
 
-// Calculates the normal vector at a given spot on a model.
-function kleinBottleNormal(
-  u: number,
-  v: number,
-  immersion: string,
-  uEpsilon: number,
-  vEpsilon: number,
-) {
-  const tangentU = kleinBottleTangentU(u, v, immersion, uEpsilon);
-  const tangentV = kleinBottleTangentV(u, v, immersion, vEpsilon);
-  return vec3.normalize(vec3.cross(tangentU, tangentV));
+// Calculates the normal vector from the tangent vectors at a spot on a model.
+function kleinBottleNormal({ du, dv }: { du: Vec3; dv: Vec3 }): Vec3 {
+  return vec3.normalize(vec3.cross(du, dv, [0, 0, 0]), [0, 0, 0]);
 }
 
 // Export the coordinate function for use by camera animation
@@ -295,18 +489,15 @@ export function kleinBottle(
   const color = hexToRgb(hexColor);
   const vertices: number[] = [];
   const indices: number[] = [];
-  const uStep = (1 / tubularSegments) * Math.PI * 2;
-  const vStep = (1 / radialSegments) * Math.PI * 2;
-  const uEpsilon = uStep * .1;
-  const vEpsilon = vStep * .1;
 
   for (let j = 0; j <= radialSegments; ++j) {
     for (let i = 0; i <= tubularSegments; ++i) {
       const u = (i / tubularSegments) * Math.PI * 2;
       const v = (j / radialSegments) * Math.PI * 2;
 
-      const vertex = kleinBottleCoord(u, v, immersion);
-      const normal = kleinBottleNormal(u, v, immersion, uEpsilon, vEpsilon);
+      const point = surfacePoint(u, v, immersion);
+      const vertex = point.position;
+      const normal = kleinBottleNormal(point);
       const frontColor = color || hsvToRgb(i / tubularSegments / 2, 0.5, 0.85);
       const backColor = color || hsvToRgb(i / tubularSegments / 2 + 0.5, 0.5, 0.85);
       vertices.push(...vertex);
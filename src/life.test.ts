@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { autoReseedPattern } from './life';
+
+describe('autoReseedPattern', () => {
+  it("waits until the grid has been in a cycle for long enough", () => {
+    expect(autoReseedPattern('random', undefined, 500, 100)).toBeUndefined();
+    expect(autoReseedPattern('random', { start: 450, period: 2 }, 500, 100)).toBeUndefined();
+    expect(autoReseedPattern('random', { start: 400, period: 2 }, 500, 100)).toBe('random');
+  });
+
+  it('reseeds random patterns with the same pattern', () => {
+    for (const pattern of ['random', 'disks', 'gliders', 'randomrings', 'randomstripes', 'anttrack']) {
+      expect(autoReseedPattern(pattern, { start: 0, period: 1 }, 100, 100)).toBe(pattern);
+    }
+  });
+
+  it("reseeds patterns that aren't random with a random grid", () => {
+    for (const pattern of ['oneglider', 'squares', 'rings', 'empty', 'gosper']) {
+      expect(autoReseedPattern(pattern, { start: 0, period: 1 }, 100, 100)).toBe('random');
+    }
+  });
+});
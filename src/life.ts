@@ -4,37 +4,196 @@
 // It has been extensively modified by Alan deLespinasse.
 
 import lifeShaderCode from './life.wgsl?raw';
+import { type LifeRule, type Neighborhood, defaultRule, parseRule, ruleToString } from './rules';
+import {
+  type ContinuousRule,
+  bitsToFloat,
+  continuousRuleToString,
+  floatBits,
+  parseContinuousRule,
+} from './continuous';
+import { type Topology, topologyFlags, wrapCell } from './topology';
+import {
+  type StepStats,
+  countCells,
+  generationHash,
+  isActive,
+  stepContinuous,
+  stepLife,
+} from './cpuLife';
+import { LifeHistory } from './history';
+import { createRandom, newSeed } from './random';
+import {
+  type Pattern,
+  type Transform,
+  advancePattern,
+  libraryPattern,
+  patternLibrary,
+  transformPattern,
+} from './patterns';
 
 const WORKGROUP_SIZE = 8;
+// Size of the Grid struct in life.wgsl.
+const GRID_UNIFORMS_SIZE = 208;
+// Number of bits in each of the birth and survival masks in the Grid struct.
+const MASK_BITS = 512;
+// Neighborhood shapes, as represented in life.wgsl.
+const neighborhoodCodes: Record<Neighborhood, number> = {
+  moore: 0,
+  vonneumann: 1,
+  hex: 2,
+};
+// Kinds of continuous rules, as represented in life.wgsl.
+const continuousCodes: Record<ContinuousRule['kind'], number> = {
+  lenia: 1,
+  smoothlife: 2,
+};
+// Number of steps to keep statistics for.
+const MAX_STATS = 10000;
+// When running to a far-off generation, each chunk of steps updates about
+// this many cells, so the page stays responsive.
+const CPU_CHUNK_CELLS = 1 << 21;
+const GPU_CHUNK_CELLS = 1 << 28;
+const MAX_CHUNK_STEPS = 4096;
 
-function isPowerOf2(n: number): boolean {
-  return n > 0 && (n & (n - 1)) === 0 && n === Math.floor(n);
+/** Options for the ToroidalLife constructor. */
+export type LifeOptions = {
+  rule?: string; // Rulestring, e.g. "B3/S23" or "Lenia:R=13"
+  topology?: Topology; // How the edges of the grid are glued together
+  // Runs the simulation on the CPU instead of in a compute shader, for when
+  // compute shaders aren't available. This is a lot slower.
+  cpu?: boolean;
+  // Seed for the random initializers. If not given, a random one is chosen.
+  seed?: number;
+  // Stores the age of each live cell as its state (1 for a newborn cell), so
+  // that cells can be colored by age. Ignored for Generations rules, which use
+  // the states for something else.
+  ageMode?: boolean;
+};
+
+/** The state of the grid at a particular step. */
+export type LifeSnapshot = {
+  step: number;
+  width: number;
+  height: number;
+  cells: Uint32Array<ArrayBuffer>; // width * height cells, row by row
+};
+
+/** Statistics about one step: the number of active cells, and how many were
+ * born or died since the previous step. Births and deaths are zero for steps
+ * that were set up rather than computed. */
+export type LifeStats = StepStats & {
+  step: number;
+};
+
+/** A cycle that the simulation has entered: generation `start` is the same as
+ * generation `start + period`, and so on forever. A still life has a period
+ * of 1. */
+export type LifeCycle = {
+  start: number;
+  period: number;
+};
+
+// Initial patterns (see setPattern) that are different for each seed. The ant
+// track in main.ts is a random grid with stripes, so it counts too.
+const randomPatterns = [
+  'random', 'disks', 'gliders', 'randomgliders', 'randomrings', 'randomstripes', 'anttrack',
+];
+
+/** Returns the pattern to reseed the grid with, if it has been in a cycle for
+ * at least `after` generations, or undefined if it shouldn't be reseeded yet.
+ * Reseeding with a pattern that isn't random would just repeat the same run,
+ * so a random grid is used instead. */
+export function autoReseedPattern(
+  pattern: string,
+  cycle: LifeCycle | undefined,
+  step: number,
+  after: number,
+): string | undefined {
+  if (!cycle || step - cycle.start < after) {
+    return undefined;
+  }
+  return randomPatterns.includes(pattern) ? pattern : 'random';
+}
+
+/** Throws an Error if a rulestring can't be used by ToroidalLife (in the
+ * constructor or setRule). */
+export function checkRule(rule: string) {
+  if (!parseContinuousRule(rule)) {
+    parseRule(rule);
+  }
 }
 
-/** Runs the Conway's Game of Life algorithm on the GPU. */
+/** Runs the Game of Life (or another life-like, Generations, Larger than Life or
+ * continuous rule) on the GPU, or on the CPU if necessary. Despite the
+ * name, the grid can be glued together into surfaces other than a torus; by
+ * default it's a Klein bottle. */
 export class ToroidalLife {
-  device: GPUDevice;
+  // Undefined if WebGPU isn't available at all, in which case the simulation
+  // runs on the CPU and there are no GPU buffers.
+  device: GPUDevice | undefined;
   grid_size_x: number;
   grid_size_y: number;
   workgroup_size_x: number;
   workgroup_size_y: number;
-  pipeline: GPUComputePipeline;
-  bindGroups: GPUBindGroup[];
-  cellStateStorage: GPUBuffer[];
-  currentCellState: GPUBuffer;
+  cpu: boolean;
+  pipeline: GPUComputePipeline | undefined; // Not used when running on the CPU
+  statsPipeline: GPUComputePipeline | undefined; // Not used when running on the CPU
+  continuousPipeline: GPUComputePipeline | undefined; // Not used when running on the CPU
+  convertPipeline: GPUComputePipeline | undefined; // Not used when running on the CPU
+  uniformBuffer: GPUBuffer | undefined;
+  rule: LifeRule;
+  // If set, this rule is used instead of `rule`, which is kept so the uniforms
+  // always have valid values for it.
+  continuousRule: ContinuousRule | undefined;
+  topology: Topology;
+  ageMode: boolean;
+  bindGroups: GPUBindGroup[] = []; // Not used when running on the CPU
+  cellStateStorage: GPUBuffer[] = []; // Empty if there's no device
   step: number;
-  cellStateArray: Uint32Array<ArrayBuffer>; // Used only when (re)initializing grid
+  history: LifeHistory; // Recent generations, for rewinding
+  seed: number; // Seed last used to reset the random number generator
+  random: () => number; // Used by all the random initializers
+  // Used only when (re)initializing grid, unless running on the CPU, in which
+  // case it always holds the current generation.
+  cellStateArray: Uint32Array<ArrayBuffer>;
+  nextCellStateArray: Uint32Array<ArrayBuffer>; // Used only when running on the CPU
+  // Statistics for recent steps, oldest first, and a function to call when
+  // statistics for a new step are available. On the GPU they're computed along
+  // with each step, but are only available to JS a little later.
+  stats: LifeStats[] = [];
+  onStats: ((stats: LifeStats) => void) | undefined;
+  statsBuffer: GPUBuffer | undefined; // Not used when running on the CPU
+  statsReadBuffers: GPUBuffer[] = []; // Mappable buffers that aren't in use
+  // Resolves when the most recently computed statistics have been read back.
+  lastStatsRead: Promise<void> = Promise.resolve();
+  // Incremented when the grid is set up, so that statistics that arrive late
+  // for steps from before that can be ignored.
+  statsEpoch = 0;
+  // The cycle the simulation is in, if it has been detected. It's found by
+  // looking for a generation with the same hash as an earlier one.
+  cycle: LifeCycle | undefined;
+  stepsByHash = new Map<string, number>(); // Latest step with each hash
 
   constructor(
-    device: GPUDevice,
+    device: GPUDevice | undefined,
     tubularSegments: number,
     radialSegments: number,
+    {
+      rule = defaultRule,
+      topology = 'klein',
+      cpu = false,
+      seed = newSeed(),
+      ageMode = false,
+    }: LifeOptions = {},
   ) {
-    // Dimensions have to be powers of 2 AT LEAST because of the implementation
-    // of setCell below and the cellIndex function in life.wgsl. There might be
-    // other reasons too.
-    if (!isPowerOf2(tubularSegments) || !isPowerOf2(radialSegments)) {
-      throw new Error('Grid dimensions must be powers of 2');
+    // The height has to be even because of the way the "twist" is implemented
+    // in setCell below and the cellIndex function in life.wgsl.
+    if (!Number.isInteger(tubularSegments) || tubularSegments < 1) {
+      throw new Error('Grid width must be a positive integer');
+    }
+    if (!Number.isInteger(radialSegments) || radialSegments < 2 || radialSegments % 2) {
+      throw new Error('Grid height must be a positive even integer');
     }
     this.device = device;
     this.grid_size_x = tubularSegments;
@@ -42,10 +201,73 @@ export class ToroidalLife {
     this.workgroup_size_x = Math.min(WORKGROUP_SIZE, this.grid_size_x);
     this.workgroup_size_y = Math.min(WORKGROUP_SIZE, this.grid_size_y)
     this.step = 0;
+    this.continuousRule = parseContinuousRule(rule);
+    this.rule = parseRule(this.continuousRule ? defaultRule : rule);
+    this.topology = topology;
+    this.ageMode = ageMode;
+    this.cpu = cpu;
+    this.seed = seed;
+    this.random = createRandom(seed);
     this.cellStateArray = new Uint32Array(this.grid_size_x * this.grid_size_y);
 
+    this.nextCellStateArray = new Uint32Array(this.cellStateArray.length);
+    this.history = new LifeHistory(this.device, this.cellStateArray.length);
+    if (!device) {
+      if (!cpu) {
+        throw new Error('Running Life on the GPU requires a device');
+      }
+    } else {
+      // Create a uniform buffer that describes the grid and the rule.
+      this.uniformBuffer = device.createBuffer({
+        label: "Grid Uniforms",
+        size: GRID_UNIFORMS_SIZE,
+        usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      });
+      this.writeUniforms();
+
+      // Create two storage buffers to hold the cell state.
+      this.cellStateStorage = [
+        device.createBuffer({
+          label: "Cell State A",
+          size: this.grid_size_x * this.grid_size_y * Uint32Array.BYTES_PER_ELEMENT,
+          usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+        }),
+        device.createBuffer({
+          label: "Cell State B",
+          size: this.grid_size_x * this.grid_size_y * Uint32Array.BYTES_PER_ELEMENT,
+          usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+        })
+      ];
+      this.statsBuffer = device.createBuffer({
+        label: "Step Statistics",
+        size: 5 * Uint32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+      });
+      if (!this.cpu) {
+        this.createComputePipeline(device);
+      }
+    }
+    this.setRandom(.3);
+    // this.setOneGlider();
+  }
+
+  /** The GPU buffer holding the current generation (even when running on the
+   * CPU, so it can be drawn). Not available if there's no device. */
+  get currentCellState(): GPUBuffer {
+    return this.cellStateStorage[this.step % 2];
+  }
+
+  /** Copies cellStateArray to the current generation's GPU buffer, if there
+   * is one. */
+  private writeCellBuffer() {
+    this.device?.queue.writeBuffer(this.currentCellState, 0, this.cellStateArray);
+  }
+
+  /** Creates the compute pipeline and bind groups used to run the simulation
+   * on the GPU. */
+  private createComputePipeline(device: GPUDevice) {
     // Create the bind group layout and pipeline layout.
-    const bindGroupLayout = this.device.createBindGroupLayout({
+    const bindGroupLayout = device.createBindGroupLayout({
       label: "Cell Bind Group Layout",
       entries: [{
         binding: 0,
@@ -59,23 +281,27 @@ export class ToroidalLife {
         binding: 2,
         visibility: GPUShaderStage.COMPUTE,
         buffer: { type: "storage" } // Cell state output buffer
+      }, {
+        binding: 3,
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "storage" } // Statistics buffer
       }]
     });
 
-    const pipelineLayout = this.device.createPipelineLayout({
+    const pipelineLayout = device.createPipelineLayout({
       label: "Cell Pipeline Layout",
       bindGroupLayouts: [ bindGroupLayout ],
     });
 
     // Create the compute shader that will process the game of life simulation.
-    const lifeShaderModule = this.device.createShaderModule({
+    const lifeShaderModule = device.createShaderModule({
       label: "Life simulation shader",
       code: lifeShaderCode.replace(/\bWORKGROUP_SIZE_X\b/g, String(this.workgroup_size_x))
         .replace(/\bWORKGROUP_SIZE_Y\b/g, String(this.workgroup_size_y))
     });
 
     // Create a compute pipeline that updates the game state.
-    this.pipeline = this.device.createComputePipeline({
+    this.pipeline = device.createComputePipeline({
       label: "Simulation pipeline",
       layout: pipelineLayout,
       compute: {
@@ -84,101 +310,285 @@ export class ToroidalLife {
       }
     });
 
-    // Create a uniform buffer that describes the grid.
-    const uniformArray = new Float32Array([this.grid_size_x, this.grid_size_y]);
-    const uniformBuffer = this.device.createBuffer({
-      label: "Grid Uniforms",
-      size: uniformArray.byteLength,
-      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    // And one that counts cells after each step.
+    this.statsPipeline = device.createComputePipeline({
+      label: "Statistics pipeline",
+      layout: pipelineLayout,
+      compute: {
+        module: lifeShaderModule,
+        entryPoint: "statsMain",
+      }
+    });
+
+    // One that computes the next step of continuous rules instead.
+    this.continuousPipeline = device.createComputePipeline({
+      label: "Continuous simulation pipeline",
+      layout: pipelineLayout,
+      compute: {
+        module: lifeShaderModule,
+        entryPoint: "continuousMain",
+      }
+    });
+
+    // And one that converts cells to or from continuous values, when the rule
+    // changes.
+    this.convertPipeline = device.createComputePipeline({
+      label: "Conversion pipeline",
+      layout: pipelineLayout,
+      compute: {
+        module: lifeShaderModule,
+        entryPoint: "convertMain",
+      }
     });
-    this.device.queue.writeBuffer(uniformBuffer, 0, uniformArray);
-
-    // Create two storage buffers to hold the cell state.
-    this.cellStateStorage = [
-      this.device.createBuffer({
-        label: "Cell State A",
-        size: this.grid_size_x * this.grid_size_y * Uint32Array.BYTES_PER_ELEMENT,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-      }),
-      this.device.createBuffer({
-        label: "Cell State B",
-        size: this.grid_size_x * this.grid_size_y * Uint32Array.BYTES_PER_ELEMENT,
-        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
-      })
-    ];
-    this.currentCellState = this.cellStateStorage[0];
-    this.setRandom(.3);
-    // this.setOneGlider();
 
     // Create a bind group to pass the grid uniforms into the pipeline
     this.bindGroups = [
-      this.device.createBindGroup({
+      device.createBindGroup({
         label: "Cell renderer bind group A",
         layout: bindGroupLayout,
         entries: [{
           binding: 0,
-          resource: { buffer: uniformBuffer }
+          resource: { buffer: this.uniformBuffer! }
         }, {
           binding: 1,
           resource: { buffer: this.cellStateStorage[0] }
         }, {
           binding: 2,
           resource: { buffer: this.cellStateStorage[1] }
+        }, {
+          binding: 3,
+          resource: { buffer: this.statsBuffer! }
         }],
       }),
-      this.device.createBindGroup({
+      device.createBindGroup({
         label: "Cell renderer bind group B",
         layout: bindGroupLayout,
         entries: [{
           binding: 0,
-          resource: { buffer: uniformBuffer }
+          resource: { buffer: this.uniformBuffer! }
         }, {
           binding: 1,
           resource: { buffer: this.cellStateStorage[1] }
         }, {
           binding: 2,
           resource: { buffer: this.cellStateStorage[0] }
+        }, {
+          binding: 3,
+          resource: { buffer: this.statsBuffer! }
         }],
       }),
     ];
   }
 
+  /** Must match the Grid struct in life.wgsl. */
+  writeUniforms() {
+    const uniformValues = new ArrayBuffer(GRID_UNIFORMS_SIZE);
+    new Float32Array(uniformValues, 0, 2).set([this.grid_size_x, this.grid_size_y]);
+    new Uint32Array(uniformValues, 8, 6).set([
+      topologyFlags(this.topology),
+      this.rule.states,
+      this.countsAges() ? 1 : 0,
+      this.rule.range,
+      neighborhoodCodes[this.rule.neighborhood],
+      this.rule.middle ? 1 : 0,
+    ]);
+    const birthMask = new Uint32Array(uniformValues, 32, MASK_BITS / 32);
+    const survivalMask = new Uint32Array(uniformValues, 32 + MASK_BITS / 8, MASK_BITS / 32);
+    for (const n of this.rule.birth) {
+      birthMask[n >> 5] |= 1 << (n & 31);
+    }
+    for (const n of this.rule.survival) {
+      survivalMask[n >> 5] |= 1 << (n & 31);
+    }
+    const continuous = this.continuousRule;
+    if (continuous) {
+      new Uint32Array(uniformValues, 160, 1)[0] = continuousCodes[continuous.kind];
+      new Float32Array(uniformValues, 164, 11).set([
+        continuous.radius,
+        continuous.dt,
+        continuous.mu,
+        continuous.sigma,
+        continuous.b1,
+        continuous.b2,
+        continuous.d1,
+        continuous.d2,
+        continuous.alphaN,
+        continuous.alphaM,
+        continuous.innerRadius,
+      ]);
+    }
+    this.device?.queue.writeBuffer(this.uniformBuffer!, 0, uniformValues);
+  }
+
+  /** Changes the rule (e.g. "B36/S23") without otherwise changing the state
+   * of the simulation. Throws an Error if the rule can't be parsed. Cells in
+   * states the new rule doesn't have (like dying cells of a Generations rule)
+   * count as live. When switching to or from a continuous rule, live cells
+   * become 1 and others 0. */
+  setRule(rule: string) {
+    const wasContinuous = Boolean(this.continuousRule);
+    this.continuousRule = parseContinuousRule(rule);
+    if (!this.continuousRule) {
+      this.rule = parseRule(rule);
+    }
+    this.writeUniforms();
+    if (wasContinuous !== Boolean(this.continuousRule)) {
+      this.convertStates();
+    }
+    // Later generations in the history were computed with the old rule.
+    this.history.truncate(this.step);
+    this.resetCycleDetection();
+  }
+
+  /** Returns the current rule as a rulestring. */
+  ruleString(): string {
+    return this.continuousRule
+      ? continuousRuleToString(this.continuousRule)
+      : ruleToString(this.rule);
+  }
+
+  /** Converts the current generation between the states of continuous rules
+   * and others, after switching between them. See convertMain in life.wgsl. */
+  private convertStates() {
+    if (this.cpu) {
+      this.cellStateArray = this.cellStateArray.map((state) => {
+        if (this.continuousRule) {
+          return state === 1 || state >= this.rule.states ? floatBits(1) : 0;
+        }
+        return bitsToFloat(state) >= 0.5 ? 1 : 0;
+      });
+      this.writeCellBuffer();
+    } else {
+      // Convert into the other buffer, then copy back.
+      const encoder = this.device!.createCommandEncoder();
+      const computePass = encoder.beginComputePass();
+      computePass.setPipeline(this.convertPipeline!);
+      computePass.setBindGroup(0, this.bindGroups[this.step % 2]);
+      computePass.dispatchWorkgroups(
+        Math.ceil(this.grid_size_x / this.workgroup_size_x),
+        Math.ceil(this.grid_size_y / this.workgroup_size_y),
+      );
+      computePass.end();
+      const other = this.cellStateStorage[(this.step + 1) % 2];
+      encoder.copyBufferToBuffer(other, 0, this.currentCellState, 0, other.size);
+      this.device!.queue.submit([encoder.finish()]);
+    }
+    this.recordHistory();
+  }
+
+  /** Turns age mode (see LifeOptions) on or off. Existing live cells keep
+   * their states, so they start at age 1 or stay alive, respectively. */
+  setAgeMode(ageMode: boolean) {
+    this.ageMode = ageMode;
+    this.writeUniforms();
+    this.history.truncate(this.step);
+    this.resetCycleDetection();
+  }
+
+  /** Changes how the edges of the grid are glued together, without otherwise
+   * changing the state of the simulation. */
+  setTopology(topology: Topology) {
+    this.topology = topology;
+    this.writeUniforms();
+    this.history.truncate(this.step);
+    this.resetCycleDetection();
+  }
+
+  /** Whether the states of live cells are currently their ages. */
+  countsAges(): boolean {
+    return this.ageMode && this.rule.states === 2 && !this.continuousRule;
+  }
+
+  /** Returns true if a cell in the given state is alive (as opposed to dead
+   * or dying). */
+  isAlive(state: number): boolean {
+    return isActive(state, this.continuousRule || this.rule, this.countsAges());
+  }
+
+  /** Resets the random number generator used by the random initializers, so
+   * that they produce the same patterns each time they're used with the same
+   * seed. */
+  setSeed(seed: number) {
+    this.seed = seed;
+    this.random = createRandom(seed);
+  }
+
   clear() {
     this.cellStateArray.fill(0);
   }
 
+  /** Sets a cell in cellStateArray. With a continuous rule, the state is used
+   * as the cell's value (up to 1). */
   setCell(x: number, y: number, state = 1) {
     // Calculate absolute coordinates that lie within [0, width) and [0,
-    // height). If 2*N*width <= x < (2*N+1)*width, for integer N, this means we
-    // have to invert y to implement the "twist" in the bottle surface. The &
-    // operator works for this only because the grid dimensions have to be
-    // powers of 2.
-    const y0 = ((x & this.grid_size_x)
-      ? this.grid_size_y / 2 - 1 - y
-      : y) & (this.grid_size_y - 1);
-    const x0 = x & (this.grid_size_x - 1);
-    this.cellStateArray[y0 * this.grid_size_x + x0] = state;
+    // height), taking into account the way the edges are glued together
+    // (including the "twist" in the bottle surface). Cells beyond an edge that
+    // isn't glued to anything are ignored.
+    const cell = wrapCell(x, y, this.grid_size_x, this.grid_size_y, this.topology);
+    if (cell) {
+      const [x0, y0] = cell;
+      this.cellStateArray[y0 * this.grid_size_x + x0] = this.continuousRule
+        ? floatBits(Math.min(state, 1))
+        : state;
+    }
   };
 
-  makeGlider(x: number, y: number, phase = 0, xdir = 1, ydir = 1) {
-    // TODO: This only implements 2 of the 4 phases for each direction
-    if (!(phase & 1)) {
-      this.setCell(x, y);
-      this.setCell(x, y + ydir);
-      this.setCell(x, y + 2 * ydir);
-      this.setCell(x - xdir, y + 2 * ydir);
-      this.setCell(x - 2 * xdir, y + ydir);
-    } else {
-      this.setCell(x - 2 * xdir, y + 2 * ydir);
-      this.setCell(x - xdir, y + 2 * ydir);
-      this.setCell(x - xdir, y + ydir);
-      this.setCell(x, y + ydir);
-      this.setCell(x - 2 * xdir, y);
+  /** Immediately sets the state of one cell in the current generation.
+   * Unlike setCell, the coordinates must be within the grid, and the change
+   * takes effect without calling upload. */
+  writeCell(x: number, y: number, state: number) {
+    const index = y * this.grid_size_x + x;
+    if (this.continuousRule) {
+      state = floatBits(Math.min(state, 1));
+    }
+    if (this.cpu) {
+      this.cellStateArray[index] = state;
+    }
+    this.device?.queue.writeBuffer(
+      this.currentCellState,
+      index * Uint32Array.BYTES_PER_ELEMENT,
+      new Uint32Array([state]),
+    );
+    this.recordHistory();
+    this.resetCycleDetection();
+  }
+
+  /** Sets the live cells of a pattern, with the top left corner of the
+   * pattern at (x, y). Like setCell, this doesn't upload the change. */
+  placePattern(pattern: Pattern, x: number, y: number) {
+    for (const [dx, dy] of pattern.cells) {
+      this.setCell(x + dx, y + dy);
     }
+  }
+
+  /** Stamps a pattern onto the grid with its top left corner at (x, y), after
+   * advancing it by `phase` generations (of Conway's Life) and then rotating
+   * and/or reflecting it. Like setCell, this doesn't upload the change. */
+  stamp(
+    pattern: Pattern,
+    x: number,
+    y: number,
+    { transform = {}, phase = 0 }: { transform?: Transform; phase?: number } = {},
+  ) {
+    this.placePattern(transformPattern(advancePattern(pattern, phase), transform), x, y);
+  }
+
+  /** Makes a glider in one of its 4 phases, traveling diagonally in the
+   * direction given by xdir and ydir (each 1 or -1). It occupies the 3x3
+   * square with a corner at (x, y) that extends in the -xdir and +ydir
+   * directions. */
+  makeGlider(x: number, y: number, phase = 0, xdir = 1, ydir = 1) {
+    // The library glider travels in the +x, +y direction.
+    this.stamp(
+      libraryPattern('glider'),
+      xdir > 0 ? x - 2 : x,
+      ydir > 0 ? y : y - 2,
+      { transform: { flipX: xdir < 0, flipY: ydir < 0 }, phase: phase % 4 },
+    );
   };
 
-  /** Draws a stripe that goes all the way around twice, because it doesn't
-   * join up with itself the first time around. */
+  /** Draws a stripe that goes all the way around twice, because on a Klein
+   * bottle it doesn't join up with itself the first time around. */
   drawXStripe(y: number) {
     for (let x = 0; x < 2 * this.grid_size_x; x++) {
       this.setCell(x, y);
@@ -192,17 +602,380 @@ export class ToroidalLife {
   }
 
   upload() {
-    this.device.queue.writeBuffer(this.currentCellState, 0, this.cellStateArray);
+    this.writeCellBuffer();
+    this.recordHistory();
+    this.statsEpoch++;
+    this.resetCycleDetection();
+    this.recordStats({
+      step: this.step,
+      births: 0,
+      deaths: 0,
+      ...countCells(this.cellStateArray, this.continuousRule || this.rule, this.countsAges()),
+    });
+  }
+
+  /** Adds statistics for a step, replacing any for that step or later ones,
+   * and checks whether the step repeats an earlier one. */
+  private recordStats(stats: LifeStats) {
+    while (this.stats.length && this.stats[this.stats.length - 1].step >= stats.step) {
+      this.forgetHash(this.stats.pop()!);
+    }
+    if (this.cycle && this.cycle.start + this.cycle.period >= stats.step) {
+      this.cycle = undefined;
+    }
+    this.stats.push(stats);
+    if (this.stats.length > MAX_STATS) {
+      for (const old of this.stats.splice(0, this.stats.length - MAX_STATS)) {
+        this.forgetHash(old);
+      }
+    }
+
+    const previous = this.stepsByHash.get(stats.hash);
+    if (!this.cycle && previous !== undefined && previous < stats.step) {
+      this.cycle = { start: previous, period: stats.step - previous };
+    }
+    this.stepsByHash.set(stats.hash, stats.step);
+    this.onStats?.(stats);
+  }
+
+  private forgetHash(stats: LifeStats) {
+    if (this.stepsByHash.get(stats.hash) === stats.step) {
+      this.stepsByHash.delete(stats.hash);
+    }
+  }
+
+  /** Forgets the hashes of earlier generations, when they can no longer be
+   * used to detect a cycle because the grid or the rule has changed. */
+  private resetCycleDetection() {
+    this.cycle = undefined;
+    this.stepsByHash.clear();
+  }
+
+  /** Returns a mappable buffer of at least the given size that isn't in use,
+   * for reading statistics back from the GPU. */
+  private statsReadBuffer(size: number): GPUBuffer {
+    const index = this.statsReadBuffers.findIndex((buffer) => buffer.size >= size);
+    if (index >= 0) {
+      return this.statsReadBuffers.splice(index, 1)[0];
+    }
+    return this.device!.createBuffer({
+      label: "Step Statistics Readback",
+      // Round up, so the buffer can be reused for other numbers of steps.
+      size: this.statsBuffer!.size * 2 ** Math.ceil(Math.log2(size / this.statsBuffer!.size)),
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  /** Reads the statistics for `steps` consecutive steps, starting with
+   * `firstStep`, back from the GPU, once the given buffer has had them copied
+   * into it. */
+  private async readStats(readBuffer: GPUBuffer, firstStep: number, steps: number) {
+    const epoch = this.statsEpoch;
+    await readBuffer.mapAsync(GPUMapMode.READ);
+    const values = new Uint32Array(readBuffer.getMappedRange()).slice();
+    readBuffer.unmap();
+    this.statsReadBuffers.push(readBuffer);
+    if (epoch !== this.statsEpoch) {
+      return;
+    }
+    for (let n = 0; n < steps; n++) {
+      const [population, births, deaths, sumA, sumB] = values.subarray(n * 5, n * 5 + 5);
+      this.recordStats({
+        step: firstStep + n,
+        population,
+        births,
+        deaths,
+        hash: generationHash(sumA, sumB),
+      });
+    }
+  }
+
+  /** Resolves when the statistics for all the steps computed so far are
+   * available. */
+  async statsSettled(): Promise<void> {
+    await this.lastStatsRead;
+  }
+
+  /** Statistics for the current step, if available. */
+  currentStats(): LifeStats | undefined {
+    for (let i = this.stats.length - 1; i >= 0; i--) {
+      if (this.stats[i].step === this.step) {
+        return this.stats[i];
+      }
+    }
+    return undefined;
+  }
+
+  /** Statistics for the latest step up to the current one that are available.
+   * On the GPU, those for the current step arrive a little later, and while
+   * running at full speed there are always newer steps. */
+  latestStats(): LifeStats | undefined {
+    for (let i = this.stats.length - 1; i >= 0; i--) {
+      if (this.stats[i].step <= this.step) {
+        return this.stats[i];
+      }
+    }
+    return undefined;
+  }
+
+  /** Replaces the current generation with the given cells (width * height,
+   * row by row) and sets the step number. The history starts over. */
+  setState(cells: ArrayLike<number>, step: number) {
+    this.step = step;
+    this.cellStateArray.set(cells);
+    this.history.reset(step);
+    this.upload();
+  }
+
+  /** Like setState, but takes a generation from a grid of a different size,
+   * which is scaled to fit this one by repeating or skipping rows and
+   * columns. */
+  setResampledState({ width, height, cells, step }: LifeSnapshot) {
+    for (let y = 0; y < this.grid_size_y; y++) {
+      const row = Math.floor(y * height / this.grid_size_y) * width;
+      for (let x = 0; x < this.grid_size_x; x++) {
+        this.cellStateArray[y * this.grid_size_x + x] =
+          cells[row + Math.floor(x * width / this.grid_size_x)];
+      }
+    }
+    this.setState(this.cellStateArray, step);
+  }
+
+  /** Records the current generation in the history, replacing whatever was
+   * recorded for the current step before. */
+  recordHistory() {
+    if (this.cpu) {
+      this.history.recordArray(this.cellStateArray, this.step);
+    } else {
+      const encoder = this.device!.createCommandEncoder();
+      this.history.recordBuffer(encoder, this.currentCellState, this.step);
+      this.device!.queue.submit([encoder.finish()]);
+    }
+  }
+
+  /** Goes back (or forward) to a step that's in the history. Returns false,
+   * and does nothing, if that step isn't available. */
+  restore(step: number): boolean {
+    if (!this.history.has(step)) {
+      return false;
+    }
+    this.step = step;
+    if (this.cpu) {
+      this.history.restoreArray(this.cellStateArray, step);
+      this.writeCellBuffer();
+    } else {
+      const encoder = this.device!.createCommandEncoder();
+      this.history.restoreBuffer(encoder, this.currentCellState, step);
+      this.device!.queue.submit([encoder.finish()]);
+    }
+    return true;
+  }
+
+  /** Goes back one generation, if it's in the history. */
+  stepBack(): boolean {
+    return this.restore(this.step - 1);
+  }
+
+  /** Goes forward one generation: from the history if it's there (after going
+   * back), otherwise by computing it. */
+  stepForward() {
+    if (!this.restore(this.step + 1)) {
+      this.update();
+    }
+  }
+
+  /** Runs the simulation forward to the given generation, which may be
+   * millions of steps away. This isn't Hashlife; every step is computed, but
+   * in large chunks, yielding to the browser between them. If the
+   * simulation turns out to be in a cycle, whole periods of it are skipped
+   * instead. `onProgress` is called after each chunk, and the run stops early
+   * if `signal` is aborted. Resolves to false if it stopped early or the
+   * generation is before the current one and no longer in the history. */
+  async runTo(
+    target: number,
+    { signal, onProgress }: { signal?: AbortSignal; onProgress?: () => void } = {},
+  ): Promise<boolean> {
+    if (target <= this.step) {
+      return this.restore(target);
+    }
+    const cellCount = this.grid_size_x * this.grid_size_y;
+    const chunkSteps = Math.max(1, Math.min(
+      MAX_CHUNK_STEPS,
+      Math.floor((this.cpu ? CPU_CHUNK_CELLS : GPU_CHUNK_CELLS) / cellCount),
+    ));
+    while (this.step < target) {
+      if (signal?.aborted) {
+        return false;
+      }
+      // Statistics (and so the cycle) are known only up to an earlier step on
+      // the GPU.
+      if (this.cycle && this.step >= this.cycle.start) {
+        const periods = Math.floor((target - this.step) / this.cycle.period);
+        if (periods > 0) {
+          await this.statsSettled();
+          this.skipPeriods(periods);
+          continue;
+        }
+      }
+      this.update(Math.min(chunkSteps, target - this.step));
+      if (this.cpu) {
+        await new Promise((resolve) => setTimeout(resolve));
+      } else {
+        await this.device!.queue.onSubmittedWorkDone();
+      }
+      onProgress?.();
+    }
+    return true;
+  }
+
+  /** Advances to the same generation some whole periods of the current cycle
+   * later, without computing anything. The statistics for the current step
+   * must have been read back already. */
+  private skipPeriods(periods: number) {
+    const stats = this.currentStats();
+    const source = this.currentCellState;
+    this.step += periods * this.cycle!.period;
+    if (this.cpu) {
+      this.writeCellBuffer();
+    } else if (source !== this.currentCellState) {
+      const encoder = this.device!.createCommandEncoder();
+      encoder.copyBufferToBuffer(source, 0, this.currentCellState, 0, source.size);
+      this.device!.queue.submit([encoder.finish()]);
+    }
+    this.history.reset(this.step);
+    this.recordHistory();
+    if (stats) {
+      this.recordStats({ ...stats, step: this.step });
+    }
+  }
+
+  /** Frees the GPU buffers. The object can't be used after this. */
+  destroy() {
+    for (const buffer of [
+      this.uniformBuffer, ...this.cellStateStorage, this.statsBuffer, ...this.statsReadBuffers,
+    ]) {
+      buffer?.destroy();
+    }
+    this.statsReadBuffers = [];
+    this.history.destroy();
+  }
+
+  /** Reads the current generation back from the GPU. Returns a new array
+   * holding the state of each cell, row by row. */
+  async download(): Promise<Uint32Array<ArrayBuffer>> {
+    if (this.cpu) {
+      return this.cellStateArray.slice();
+    }
+    const source = this.currentCellState;
+    const readBuffer = this.device!.createBuffer({
+      label: "Cell State Readback",
+      size: source.size,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
+    const encoder = this.device!.createCommandEncoder();
+    encoder.copyBufferToBuffer(source, 0, readBuffer, 0, source.size);
+    this.device!.queue.submit([encoder.finish()]);
+    await readBuffer.mapAsync(GPUMapMode.READ);
+    const cells = new Uint32Array(readBuffer.getMappedRange().slice(0));
+    readBuffer.unmap();
+    readBuffer.destroy();
+    return cells;
+  }
+
+  /** Like download, but also returns the step number and grid dimensions. */
+  async snapshot(): Promise<LifeSnapshot> {
+    // Get the step number before waiting, in case update is called meanwhile.
+    const step = this.step;
+    return {
+      step,
+      width: this.grid_size_x,
+      height: this.grid_size_y,
+      cells: await this.download(),
+    };
   }
 
+  /** Makes each cell alive with probability `fraction`. With a continuous
+   * rule, those cells get random values instead. */
   setRandom(fraction: number) {
     this.clear();
     for (let index = 0; index < this.cellStateArray.length; index++) {
-      this.cellStateArray[index] = Math.random() < fraction ? 1 : 0;
+      if (this.random() < fraction) {
+        this.cellStateArray[index] = this.continuousRule ? floatBits(this.random()) : 1;
+      }
+    }
+    this.upload();
+  }
+
+  /** Fills about `fraction` of the grid with randomly placed disks, the size
+   * of the neighborhood of a continuous rule (or 3 cells across otherwise).
+   * For Lenia, the cells in the disks have random values. */
+  setRandomDisks(fraction: number) {
+    this.clear();
+    const radius = this.continuousRule?.radius ?? 1;
+    const count = fraction * this.grid_size_x * this.grid_size_y / (Math.PI * radius * radius);
+    for (let n = 0; n < count; n++) {
+      const x0 = Math.floor(this.random() * this.grid_size_x);
+      const y0 = Math.floor(this.random() * this.grid_size_y);
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (dx * dx + dy * dy <= radius * radius) {
+            this.setCell(
+              x0 + dx, y0 + dy,
+              this.continuousRule?.kind === 'lenia' ? this.random() : 1,
+            );
+          }
+        }
+      }
     }
     this.upload();
   }
 
+  /** Initializes the grid to one of the named initial patterns: the options
+   * of the initialize select in index.html, or the keys of patternLibrary.
+   * Unknown names are ignored. */
+  setPattern(pattern: string) {
+    switch (pattern) {
+      case 'random':
+        this.setRandom(.3);
+        break;
+      case 'disks':
+        this.setRandomDisks(.3);
+        break;
+      case 'gliders':
+      case 'randomgliders':
+        this.setRandomGliders(.4);
+        break;
+      case 'oneglider':
+        this.setOneGlider();
+        break;
+      case 'rings':
+        this.setYStripes();
+        break;
+      // case 'stripes':
+      //   this.setXStripes();
+      //   break;
+      case 'randomrings':
+        this.setRandomYStripes();
+        break;
+      case 'randomstripes':
+        this.setRandomXStripes();
+        break;
+      case 'squares':
+        this.setSquares();
+        break;
+      case 'empty':
+        this.setEmpty();
+        break;
+      case 'full':
+        this.setFull();
+        break;
+      default:
+        if (Object.hasOwn(patternLibrary, pattern)) {
+          this.setLibraryPattern(pattern);
+        }
+    }
+  }
+
   /** Within each 8x8 square, with probability `fraction`, create a glider. The
    * glider's direction, phase, and position within the 8x8 square are random,
    * but it doesn't touch the edge of the square. */
@@ -210,13 +983,13 @@ export class ToroidalLife {
     this.clear();
     for (let x = 0; x < this.grid_size_x; x += 8) {
       for (let y = 0; y < this.grid_size_y; y += 8) {
-        if (Math.random() < fraction) {
+        if (this.random() < fraction) {
           this.makeGlider(
-            x + 2 + Math.floor(Math.random() * 4),
-            y + 2 + Math.floor(Math.random() * 4),
-            Math.floor(Math.random() * 4),
-            Math.floor(Math.random() * 2) * 2 - 1,
-            Math.floor(Math.random() * 2) * 2 - 1,
+            x + 2 + Math.floor(this.random() * 4),
+            y + 2 + Math.floor(this.random() * 4),
+            Math.floor(this.random() * 4),
+            Math.floor(this.random() * 2) * 2 - 1,
+            Math.floor(this.random() * 2) * 2 - 1,
           );
         }
       }
@@ -230,6 +1003,19 @@ export class ToroidalLife {
     this.upload();
   }
 
+  /** Clears the grid, then stamps one of the patterns from patternLibrary in
+   * the middle of it. */
+  setLibraryPattern(key: string) {
+    const pattern = libraryPattern(key);
+    this.clear();
+    this.stamp(
+      pattern,
+      Math.floor((this.grid_size_x - pattern.width) / 2),
+      Math.floor((this.grid_size_y - pattern.height) / 2),
+    );
+    this.upload();
+  }
+
   setXStripes() {
     this.clear();
     for (let y = 0; y < this.grid_size_y / 4; y +=2) {
@@ -250,7 +1036,7 @@ export class ToroidalLife {
   setRandomXStripes(fraction: number = 0.2) {
     this.clear();
     for (let y = 0; y < this.grid_size_y; y++) {
-      if (Math.random() < fraction / 2) {
+      if (this.random() < fraction / 2) {
         this.drawXStripe(y);
       }
     }
@@ -260,7 +1046,7 @@ export class ToroidalLife {
   setRandomYStripes(fraction: number = 0.2) {
     this.clear();
     for (let x = 0; x < this.grid_size_x; x++) {
-      if (Math.random() < fraction) {
+      if (this.random() < fraction) {
         this.drawYStripe(x);
       }
     }
@@ -292,23 +1078,70 @@ export class ToroidalLife {
     this.upload();
   }
 
-  update() {
-    const encoder = this.device.createCommandEncoder();
+  /** Computes the next `steps` generations. On the GPU, they're all computed
+   * with one command buffer, which is much faster than calling this once per
+   * step. Statistics are collected for every step, and the last ones are
+   * recorded in the history. */
+  update(steps = 1) {
+    if (this.cpu) {
+      for (let n = 0; n < steps; n++) {
+        const stats = this.continuousRule
+          ? stepContinuous(
+            this.cellStateArray, this.nextCellStateArray,
+            this.grid_size_x, this.grid_size_y,
+            this.continuousRule, this.topology,
+          )
+          : stepLife(
+            this.cellStateArray, this.nextCellStateArray,
+            this.grid_size_x, this.grid_size_y,
+            this.rule, this.topology, this.countsAges(),
+          );
+        [this.cellStateArray, this.nextCellStateArray] = [this.nextCellStateArray, this.cellStateArray];
+        this.step++;
+        if (steps - n <= this.history.capacity) {
+          this.history.recordArray(this.cellStateArray, this.step);
+        }
+        this.recordStats({ step: this.step, ...stats });
+      }
+      this.writeCellBuffer();
+      return;
+    }
+
+    const encoder = this.device!.createCommandEncoder();
+    const statsBuffer = this.statsBuffer!;
+    const statsSize = statsBuffer.size;
+    const readBuffer = this.statsReadBuffer(steps * statsSize);
+    const firstStep = this.step + 1;
+    const stepPipeline = this.continuousRule ? this.continuousPipeline! : this.pipeline!;
+    for (let n = 0; n < steps; n++) {
+      encoder.clearBuffer(statsBuffer);
 
-    // Compute pass
-    const computePass = encoder.beginComputePass();
-    computePass.setPipeline(this.pipeline);
-    computePass.setBindGroup(0, this.bindGroups[this.step % 2]);
-    computePass.dispatchWorkgroups(
-      Math.ceil(this.grid_size_x / this.workgroup_size_x),
-      Math.ceil(this.grid_size_y / this.workgroup_size_y),
-    );
-    computePass.end();
+      // Compute pass: one dispatch to compute the next step, and another to
+      // count the results.
+      const computePass = encoder.beginComputePass();
+      computePass.setBindGroup(0, this.bindGroups[this.step % 2]);
+      for (const pipeline of [stepPipeline, this.statsPipeline!]) {
+        computePass.setPipeline(pipeline);
+        computePass.dispatchWorkgroups(
+          Math.ceil(this.grid_size_x / this.workgroup_size_x),
+          Math.ceil(this.grid_size_y / this.workgroup_size_y),
+        );
+      }
+      computePass.end();
 
-    this.step++; // Increment the step count
-    this.device.queue.submit([encoder.finish()]);
+      this.step++; // Increment the step count
+      // Earlier steps would just be overwritten in the history.
+      if (steps - n <= this.history.capacity) {
+        this.history.recordBuffer(encoder, this.cellStateStorage[this.step % 2], this.step);
+      }
+      encoder.copyBufferToBuffer(statsBuffer, 0, readBuffer, n * statsSize, statsSize);
+    }
+    this.device!.queue.submit([encoder.finish()]);
+    // Mapping fails if the device is lost or the buffers are destroyed (as
+    // when the grid is replaced). The statistics aren't needed then, and
+    // neither is the buffer.
+    this.lastStatsRead = this.readStats(readBuffer, firstStep, steps).catch(() => {});
 
-    this.currentCellState = this.cellStateStorage[this.step % 2];
     // this.clear();
     // this.drawXStripe(this.step);
     // this.upload();
@@ -1,59 +1,389 @@
-// WebGPU compute shader for running Conway's Game of Life. Originally from
+// WebGPU compute shader for running Conway's Game of Life, or any other
+// life-like, Generations or Larger than Life rule, or a continuous rule like
+// Lenia. Originally from
 // https://codelabs.developers.google.com/your-first-webgpu-app
 // which was licensed under the Apache License version 2.0.
 // It has been modified by Alan deLespinasse.
 
-@group(0) @binding(0) var<uniform> grid: vec2f;
+struct Grid {
+  size: vec2f,
+  // How the edges of the grid are glued together. Combination of the flags
+  // below.
+  topology: u32,
+  // Number of states. 2 for life-like rules; more for Generations rules, in
+  // which cells that die go through states 2, 3, ... states - 1 before they're
+  // dead (state 0).
+  states: u32,
+  // If nonzero, the state of a live cell is its age: 1 when it's born, 2 in
+  // the next generation, and so on. Only used with 2 states.
+  ageMode: u32,
+  // Neighbors are counted within this distance of each cell.
+  range: u32,
+  // Shape of the neighborhood. One of the constants below.
+  neighborhood: u32,
+  // If nonzero, an active cell counts as one of its own neighbors.
+  middle: u32,
+  // Bit n (bit n % 32 of word n / 32) is set if a dead cell with n active
+  // neighbors becomes active.
+  birth: array<vec4u, 4>,
+  // Bit n is set if an active cell with n active neighbors stays active.
+  survival: array<vec4u, 4>,
+  // The kind of continuous rule (one of the constants below), or 0 for the
+  // other kinds. In continuous rules, the cell states are the bits of f32
+  // values between 0 and 1. The rest of the fields are the parameters of the
+  // continuous rule; see continuous.ts.
+  continuous: u32,
+  radius: f32,
+  dt: f32,
+  mu: f32,
+  sigma: f32,
+  b1: f32,
+  b2: f32,
+  d1: f32,
+  d2: f32,
+  alphaN: f32,
+  alphaM: f32,
+  innerRadius: f32,
+};
+
+// Kinds of continuous rules. These must match continuousCodes in life.ts.
+const LENIA = 1u;
+const SMOOTHLIFE = 2u;
+
+// Neighborhood shapes. These must match neighborhoodCodes in life.ts.
+const MOORE = 0u;
+const VON_NEUMANN = 1u;
+const HEX = 2u;
+
+// Ages stop increasing at this point.
+const MAX_AGE = 0xFFFFu;
+
+// Topology flags. These must match the ones in topology.ts.
+const X_WRAPS = 1u; // Cells beyond the left/right edges wrap around.
+const X_FLIPS_Y = 2u; // Wrapping around in x inverts y.
+const Y_WRAPS = 4u; // Cells beyond the top/bottom edges wrap around.
+const Y_FLIPS_X = 8u; // Wrapping around in y inverts x.
+const HALF_FLIP = 16u; // Inverting y maps it to height / 2 - 1 - y.
+
+@group(0) @binding(0) var<uniform> grid: Grid;
 
 @group(0) @binding(1) var<storage> cellStateIn: array<u32>;
 @group(0) @binding(2) var<storage, read_write> cellStateOut: array<u32>;
 
-fn cellIndex(cell: vec2u) -> u32 {
-  let width = u32(grid.x);
-  let height = u32(grid.y);
-  // This modulo arithmetic only works because the dimensions are always powers of 2.
-  // The numbers are unsigned 32-bit integers, which means 0 minus 1 is 2^(32)-1, which
-  // is not equivalent to -1 in modulo arithmetic unless the modulus is a power of 2.
-  // Using signed integers would not fix this because the % operator computes the
-  // remainder, not modulo.
-  // This could be fixed fairly easily to support any dimensions, but life.ts would need
-  // changes too.
-  let x = cell.x % width;
-  let y = cell.y % height;
-  if (cell.x >= width) {
-    return ((height / 2 - 1 - y) % height) * width + x;
+// Statistics about the step, computed by statsMain: the number of active
+// cells afterwards, the number of births, the number of deaths, and two
+// independent 32-bit hashes of the new generation.
+@group(0) @binding(3) var<storage, read_write> stats: array<atomic<u32>, 5>;
+
+// Partial sums of the statistics for one workgroup. Workgroup memory starts out
+// zeroed.
+var<workgroup> workgroupStats: array<atomic<u32>, 5>;
+
+// Salts for the two generation hashes. These must match the ones in cpuLife.ts.
+const HASH_SALT_A = 0x9E3779B9u;
+const HASH_SALT_B = 0x85EBCA6Bu;
+
+// Modulo that always returns a result in [0, n), unlike the % operator, which
+// computes the remainder and so can return negative results.
+fn wrap(a: i32, n: i32) -> i32 {
+  return ((a % n) + n) % n;
+}
+
+// Maps cell coordinates that may lie outside the grid (including negative ones)
+// to the coordinates of the cell they're glued to, according to the topology.
+// Returns (-1, -1) if the coordinates are beyond an edge that isn't glued to
+// anything. This must match wrapCell in topology.ts.
+fn wrapCell(cell: vec2i) -> vec2i {
+  let width = i32(grid.size.x);
+  let height = i32(grid.size.y);
+  var x = cell.x;
+  var y = cell.y;
+  // Handle the x direction first. Wrapping around in x can change y, but y is
+  // dealt with afterwards anyway.
+  if (x < 0 || x >= width) {
+    if ((grid.topology & X_WRAPS) == 0) {
+      return vec2i(-1, -1);
+    }
+    x = wrap(cell.x, width);
+    // Number of times we've gone around the surface in the x direction.
+    let laps = (cell.x - x) / width;
+    if ((grid.topology & X_FLIPS_Y) != 0 && wrap(laps, 2) == 1) {
+      // Implement the "twist" in the surface by inverting y. The height is
+      // always even, so the half flip maps whole cells to whole cells.
+      let flipHeight = select(height, height / 2, (grid.topology & HALF_FLIP) != 0);
+      y = flipHeight - 1 - y;
+    }
+  }
+  // Inverting x here leaves it in range, so we don't have to go back and handle
+  // the x direction again.
+  if (y < 0 || y >= height) {
+    if ((grid.topology & Y_WRAPS) == 0) {
+      return vec2i(-1, -1);
+    }
+    let wrappedY = wrap(y, height);
+    let laps = (y - wrappedY) / height;
+    y = wrappedY;
+    if ((grid.topology & Y_FLIPS_X) != 0 && wrap(laps, 2) == 1) {
+      x = width - 1 - x;
+    }
+  }
+  return vec2i(x, y);
+}
+
+// Returns the index into the cell state arrays of a cell within the grid.
+fn cellIndex(cell: vec2i) -> u32 {
+  return u32(cell.y * i32(grid.size.x) + cell.x);
+}
+
+// Returns true for the states of live cells. States that the rule doesn't
+// have (e.g. ages, after age mode is turned off) count as live. For continuous
+// rules, cells that are at least half full count as live.
+fn isActive(state: u32) -> bool {
+  if (grid.continuous != 0) {
+    return bitcast<f32>(state) >= 0.5;
+  }
+  if (grid.ageMode != 0) {
+    return state >= 1;
+  }
+  return state == 1 || state >= grid.states;
+}
+
+// Returns 1 if the cell at the given coordinates (which may lie outside the
+// grid) is active, 0 otherwise.
+fn cellActive(x: i32, y: i32) -> u32 {
+  let cell = wrapCell(vec2(x, y));
+  if (cell.x < 0) {
+    return 0;
   }
-  return y * width + x;
+  return u32(isActive(cellStateIn[cellIndex(cell)]));
 }
 
-fn cellActive(x: u32, y: u32) -> u32 {
-  return cellStateIn[cellIndex(vec2(x, y))];
+// Returns true if bit n is set in a birth or survival mask.
+fn maskBit(mask: array<vec4u, 4>, n: u32) -> bool {
+  return ((mask[n / 128][(n / 32) % 4] >> (n % 32)) & 1) != 0;
+}
+
+// Returns true if the offset (dx, dy) from a cell is within its neighborhood,
+// given that it's within the square that computeMain loops over. This must
+// match inNeighborhood in rules.ts.
+fn inNeighborhood(dx: i32, dy: i32) -> bool {
+  let r = i32(grid.range);
+  switch (grid.neighborhood) {
+    case VON_NEUMANN: {
+      return abs(dx) + abs(dy) <= r;
+    }
+    case HEX: {
+      return abs(dx - dy) <= r;
+    }
+    default: {
+      return true;
+    }
+  }
 }
 
 @compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
-fn computeMain(@builtin(global_invocation_id) cell: vec3u) {
-  // Determine how many active neighbors this cell has.
-  let activeNeighbors = cellActive(cell.x+1, cell.y+1) +
-                        cellActive(cell.x+1, cell.y) +
-                        cellActive(cell.x+1, cell.y-1) +
-                        cellActive(cell.x, cell.y-1) +
-                        cellActive(cell.x-1, cell.y-1) +
-                        cellActive(cell.x-1, cell.y) +
-                        cellActive(cell.x-1, cell.y+1) +
-                        cellActive(cell.x, cell.y+1);
-
-  let i = cellIndex(cell.xy);
-
-  // Conway's game of life rules:
-  switch activeNeighbors {
-    case 2: { // Active cells with 2 neighbors stay active.
-      cellStateOut[i] = cellStateIn[i];
-    }
-    case 3: { // Cells with 3 neighbors become or stay active.
-      cellStateOut[i] = 1;
-    }
-    default: { // Cells with < 2 or > 3 neighbors become inactive.
-      cellStateOut[i] = 0;
+fn computeMain(@builtin(global_invocation_id) id: vec3u) {
+  // The grid dimensions aren't necessarily multiples of the workgroup size, so
+  // some invocations can be outside the grid.
+  if (f32(id.x) >= grid.size.x || f32(id.y) >= grid.size.y) {
+    return;
+  }
+  let cell = vec2i(id.xy);
+
+  // Determine how many active neighbors this cell has. Neighbors are looked up
+  // through wrapCell, so even a neighborhood bigger than the grid wraps around
+  // correctly, as many times as necessary.
+  let r = i32(grid.range);
+  var activeNeighbors = 0u;
+  for (var dy = -r; dy <= r; dy++) {
+    for (var dx = -r; dx <= r; dx++) {
+      if ((dx != 0 || dy != 0) && inNeighborhood(dx, dy)) {
+        activeNeighbors += cellActive(cell.x + dx, cell.y + dy);
+      }
+    }
+  }
+
+  let i = cellIndex(cell);
+  let state = cellStateIn[i];
+  if (grid.middle != 0 && isActive(state)) {
+    activeNeighbors += 1;
+  }
+
+  // Active cells use the survival mask, dead cells the birth mask. For
+  // Conway's Life (B3/S23) the survival mask has bits 2 and 3 set, and the
+  // birth mask has only bit 3 set.
+  if (isActive(state)) {
+    if (maskBit(grid.survival, activeNeighbors)) {
+      cellStateOut[i] = select(1, min(state + 1, MAX_AGE), grid.ageMode != 0);
+    } else {
+      // Start dying, unless there are no dying states.
+      cellStateOut[i] = select(0u, 2u, grid.states > 2);
+    }
+  } else if (state == 0) {
+    cellStateOut[i] = u32(maskBit(grid.birth, activeNeighbors));
+  } else {
+    // Dying cells just keep going until they're dead.
+    cellStateOut[i] = (state + 1) % grid.states;
+  }
+}
+
+// Returns the value of the cell at the given coordinates (which may lie outside
+// the grid), for continuous rules. Cells beyond an edge that isn't glued to
+// anything are empty.
+fn cellValue(x: i32, y: i32) -> f32 {
+  let cell = wrapCell(vec2(x, y));
+  if (cell.x < 0) {
+    return 0;
+  }
+  return bitcast<f32>(cellStateIn[cellIndex(cell)]);
+}
+
+// Smooth step from 0 to 1 around a, with width alpha. Used by SmoothLife.
+fn sigmoid(x: f32, a: f32, alpha: f32) -> f32 {
+  return 1 / (1 + exp(-(x - a) * 4 / alpha));
+}
+
+// Smooth version of 1 for x in [a, b], 0 outside.
+fn sigmoidInterval(x: f32, a: f32, b: f32) -> f32 {
+  return sigmoid(x, a, grid.alphaN) * (1 - sigmoid(x, b, grid.alphaN));
+}
+
+// Smooth version of x for m < 0.5, y for m > 0.5.
+fn sigmoidMix(x: f32, y: f32, m: f32) -> f32 {
+  return mix(x, y, sigmoid(m, 0.5, grid.alphaM));
+}
+
+// Computes the next step of a continuous rule. This must match stepContinuous
+// in cpuLife.ts.
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn continuousMain(@builtin(global_invocation_id) id: vec3u) {
+  if (f32(id.x) >= grid.size.x || f32(id.y) >= grid.size.y) {
+    return;
+  }
+  let cell = vec2i(id.xy);
+
+  // Weighted averages of the cell values in the neighborhood. For Lenia, only
+  // the outer one is used. For SmoothLife, the inner one covers the cell itself
+  // and the outer one the ring around it. Cells are looked up through wrapCell,
+  // so the neighborhood wraps around twisted edges correctly.
+  let r = i32(ceil(grid.radius));
+  var innerSum = 0.0;
+  var innerWeight = 0.0;
+  var outerSum = 0.0;
+  var outerWeight = 0.0;
+  for (var dy = -r; dy <= r; dy++) {
+    for (var dx = -r; dx <= r; dx++) {
+      let distance = length(vec2f(f32(dx), f32(dy)));
+      var inner = 0.0;
+      var outer = 0.0;
+      if (grid.continuous == LENIA) {
+        // A smooth bump, peaking halfway out.
+        let q = distance / grid.radius;
+        if (q > 0 && q < 1) {
+          outer = exp(4 - 1 / (q * (1 - q)));
+        }
+      } else {
+        // Disk and ring, with cells on the boundaries counted partially.
+        inner = clamp(grid.radius * grid.innerRadius + 0.5 - distance, 0, 1);
+        outer = clamp(grid.radius + 0.5 - distance, 0, 1) - inner;
+      }
+      if (inner > 0 || outer > 0) {
+        let value = cellValue(cell.x + dx, cell.y + dy);
+        innerSum += inner * value;
+        innerWeight += inner;
+        outerSum += outer * value;
+        outerWeight += outer;
+      }
+    }
+  }
+
+  let i = cellIndex(cell);
+  let value = bitcast<f32>(cellStateIn[i]);
+  var next: f32;
+  if (grid.continuous == LENIA) {
+    let u = outerSum / outerWeight;
+    let growth = 2 * exp(-(u - grid.mu) * (u - grid.mu) / (2 * grid.sigma * grid.sigma)) - 1;
+    next = value + grid.dt * growth;
+  } else {
+    let m = innerSum / innerWeight;
+    let n = outerSum / outerWeight;
+    let s = sigmoidInterval(n, sigmoidMix(grid.b1, grid.d1, m), sigmoidMix(grid.b2, grid.d2, m));
+    next = mix(value, s, grid.dt);
+  }
+  cellStateOut[i] = bitcast<u32>(clamp(next, 0, 1));
+}
+
+// Converts the cell states after switching between a continuous rule and any
+// other kind: live cells become 1 and others 0. The uniforms are already set
+// up for the new rule.
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn convertMain(@builtin(global_invocation_id) id: vec3u) {
+  if (f32(id.x) >= grid.size.x || f32(id.y) >= grid.size.y) {
+    return;
+  }
+  let i = cellIndex(vec2i(id.xy));
+  let state = cellStateIn[i];
+  if (grid.continuous != 0) {
+    // Age mode doesn't apply to continuous rules, so ages count as states the
+    // rule doesn't have.
+    cellStateOut[i] = bitcast<u32>(select(0.0, 1.0, state == 1 || state >= grid.states));
+  } else {
+    cellStateOut[i] = u32(bitcast<f32>(state) >= 0.5);
+  }
+}
+
+// The value a cell contributes to the hash of a generation: its state, except
+// that in age mode all live cells are the same, so still lifes and oscillators
+// can be detected.
+fn hashedState(state: u32) -> u32 {
+  if (grid.ageMode != 0 && grid.continuous == 0) {
+    return u32(isActive(state));
+  }
+  return state;
+}
+
+// Hashes the index and (hashed) state of a cell that isn't dead. The hash of a
+// generation is the sum of the hashes of those cells, so it doesn't depend on
+// the order they're added up in. This must match cellHash in cpuLife.ts.
+fn cellHash(i: u32, state: u32, salt: u32) -> u32 {
+  var h = ((i * 256u + state) ^ salt) * 747796405u + 2891336453u;
+  h = ((h >> ((h >> 28u) + 4u)) ^ h) * 277803737u;
+  return (h >> 22u) ^ h;
+}
+
+// Counts active cells, births and deaths, and hashes the new generation, after
+// computeMain has run. Each workgroup adds up its own cells first, so that only
+// one invocation per workgroup has to touch the stats buffer.
+@compute @workgroup_size(WORKGROUP_SIZE_X, WORKGROUP_SIZE_Y)
+fn statsMain(
+  @builtin(global_invocation_id) id: vec3u,
+  @builtin(local_invocation_index) localIndex: u32,
+) {
+  // Can't return early like computeMain, because every invocation has to reach
+  // the barrier.
+  if (f32(id.x) < grid.size.x && f32(id.y) < grid.size.y) {
+    let i = cellIndex(vec2i(id.xy));
+    let before = isActive(cellStateIn[i]);
+    let after = isActive(cellStateOut[i]);
+    if (after) {
+      atomicAdd(&workgroupStats[0], 1u);
+    }
+    let hashed = hashedState(cellStateOut[i]);
+    if (hashed != 0) {
+      atomicAdd(&workgroupStats[3], cellHash(i, hashed, HASH_SALT_A));
+      atomicAdd(&workgroupStats[4], cellHash(i, hashed, HASH_SALT_B));
+    }
+    if (after && !before) {
+      atomicAdd(&workgroupStats[1], 1u);
+    }
+    if (before && !after) {
+      atomicAdd(&workgroupStats[2], 1u);
+    }
+  }
+  workgroupBarrier();
+  if (localIndex == 0) {
+    for (var n = 0; n < 5; n++) {
+      atomicAdd(&stats[n], atomicLoad(&workgroupStats[n]));
     }
   }
 }
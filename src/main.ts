@@ -11,31 +11,187 @@ import {
   quitIfLimitLessThan,
   quitIfAdapterNotAvailable,
 } from './util';
-import { kleinBottle, kleinBottleCoord, kleinBottleTangentU, kleinBottleTangentV } from './kleinBottle';
-import { ToroidalLife } from './life';
+import {
+  type SurfaceFormula,
+  defaultImmersion,
+  formulaSurface,
+  getSurface,
+  immersionTopologies,
+  kleinBottle,
+  kleinBottleCoord,
+  kleinBottleTangentU,
+  kleinBottleTangentV,
+  listSurfaces,
+  registerSurface,
+} from './kleinBottle';
+import { formulaFunctions } from './formula';
+import { ToroidalLife, autoReseedPattern, checkRule } from './life';
+import { FlatView } from './flatView';
+import { ShapeMorph } from './morph';
+import { PopulationChart } from './populationChart';
+import { defaultRule, rulePresets } from './rules';
+import { continuousRulePresets } from './continuous';
+import { parsePattern, parseRLE, toRLE } from './patterns';
+import { newSeed, parseSeed } from './random';
+import {
+  type SharedState,
+  decodeCells,
+  decodeState,
+  encodeCells,
+  encodeState,
+} from './permalink';
+import { type Topology, topologies } from './topology';
 import {
   type CameraPosition,
   originCamera,
   moveCameraTowardsGoal,
   cameraClose,
+  mixCameras,
 } from './camera';
 import licenseText from '../LICENSE?raw';
 
+declare global {
+  interface Window {
+    life: ToroidalLife; // See below
+  }
+}
+
+// A shared link (see the Share button) encodes the whole state in the hash.
+// It includes URL parameters, which override the real ones.
+const sharedState = await decodeState(window.location.hash);
+
 // Parameters that can be set in URL
 const params = new URLSearchParams(window.location.search);
-const gridSize = params.get('grid') || '128x64'; // Must be powers of 2
-(document.getElementById('grid-select') as HTMLSelectElement).value = gridSize;
-const [tubularStr, radialStr] = gridSize.toLowerCase().split('x');
-const tubularSegments = Number(tubularStr) || 128;
-const radialSegments = Number(radialStr) || 64;
+for (const [key, value] of Object.entries(sharedState?.params || {})) {
+  params.set(key, value);
+}
 const initPattern = (params.get('init') || 'random').toLowerCase();
+const ruleParam = params.get('rule') || defaultRule;
+// If the rule in the URL is invalid, the default rule is used, and the error
+// is shown on the rule input.
+let ruleParamError = '';
+try {
+  checkRule(ruleParam);
+} catch (error) {
+  ruleParamError = (error as Error).message;
+}
+const initialRule = ruleParamError ? defaultRule : ruleParam;
+const seedParam = params.get('seed'); // Seed for the random initial pattern
+// engine=cpu runs the simulation on the CPU even if compute shaders work.
+const forceCpuEngine = params.get('engine') === 'cpu';
 const msaaSampleCount = Number(params.get('msaa')) || 4; // Multisample AntiAliasing
 const msaa = msaaSampleCount !== 1;
-const immersion = params.get('immersion') || 'best'; // The shape to draw
-(document.getElementById('immersion-select') as HTMLSelectElement).value = immersion;
-let antMode = params.get('ant') !== null;
+
+// User-defined surfaces (see the shape editor) are kept in localStorage. A
+// shared link can include one, in the surface parameter. That one is only
+// kept for this page, unless it's added with the shape editor, so just
+// opening a link doesn't change the user's shapes.
+let unsavedSurface: string | undefined;
+function saveSurfaces() {
+  const formulas = listSurfaces()
+    .filter((surface) => surface.name !== unsavedSurface)
+    .flatMap((surface) => surface.formula ?? []);
+  window.localStorage.setItem('surfaces', JSON.stringify(formulas));
+}
+for (const formula of JSON.parse(window.localStorage.getItem('surfaces') || '[]')) {
+  try {
+    registerSurface(formulaSurface(formula));
+  } catch (error) {
+    console.warn(`Couldn't load shape ${formula.name}:`, error);
+  }
+}
+
+function sameFormula(a: SurfaceFormula, b: SurfaceFormula): boolean {
+  return a.x === b.x && a.y === b.y && a.z === b.z
+    && a.scale === b.scale && a.topology === b.topology;
+}
+
+const surfaceParam = params.get('surface');
+if (surfaceParam) {
+  try {
+    const formula: SurfaceFormula = JSON.parse(surfaceParam);
+    // If the name is taken by a different shape, the one from the link is
+    // renamed rather than replacing it.
+    const findSurface = (name: string) => listSurfaces().find((surface) => surface.name === name);
+    let name = formula.name;
+    let existing = findSurface(name);
+    for (let n = 2; existing && !(existing.formula && sameFormula(existing.formula, formula)); n++) {
+      name = `${formula.name}-${n}`;
+      existing = findSurface(name);
+    }
+    // If the user already has the same shape, there's nothing to add.
+    if (!existing) {
+      registerSurface(formulaSurface({ ...formula, name }));
+      unsavedSurface = name;
+    }
+    if (params.get('immersion') === formula.name) {
+      params.set('immersion', name);
+    }
+  } catch (error) {
+    console.warn("Couldn't load shape from URL:", error);
+  }
+}
+
+// The topology (how the edges of the grid are glued together) and the shape
+// to draw it as have to agree. If they don't, the shape is changed to match.
+const topologyParam = params.get('topology');
+// Unknown topologies are ignored.
+const requestedTopology = topologies.find(
+  ({ name }) => name === topologyParam?.toLowerCase(),
+)?.name;
+let immersion = getSurface( // The shape to draw
+  params.get('immersion')
+  || (requestedTopology ? defaultImmersion(requestedTopology) : 'best'),
+).name;
+let topology = requestedTopology || immersionTopologies(immersion)[0];
+if (!immersionTopologies(immersion).includes(topology)) {
+  immersion = defaultImmersion(topology);
+}
+const recommendedGrid = getSurface(immersion).grid;
+const gridSize = params.get('grid') // Height must be even
+  || (recommendedGrid ? `${recommendedGrid.width}x${recommendedGrid.height}` : '128x64');
+const gridSelect = document.getElementById('grid-select') as HTMLInputElement;
+gridSelect.value = gridSize;
+const [tubularStr, radialStr] = gridSize.toLowerCase().split('x');
+// These, the shape and the topology can be changed later by reshape().
+let tubularSegments = Number(tubularStr) || 128;
+let radialSegments = Number(radialStr) || 64;
+const immersionSelect = document.getElementById('immersion-select') as HTMLSelectElement;
+const topologySelect = document.getElementById('topology-select') as HTMLSelectElement;
+
+/** Fills the shape menu with the registered surfaces. */
+function updateImmersionOptions() {
+  immersionSelect.replaceChildren(...listSurfaces()
+    .filter((surface) => !surface.hidden || surface.name === immersion)
+    .map((surface) => {
+      const option = document.createElement('option');
+      option.value = surface.name;
+      option.innerText = surface.label;
+      if (surface.grid) {
+        option.title = `Best with a ${surface.grid.width}x${surface.grid.height} grid`;
+      }
+      return option;
+    }));
+}
+updateImmersionOptions();
+immersionSelect.value = immersion;
+topologySelect.value = topology;
+// Keep the two selects in the advanced options form in agreement too.
+immersionSelect.addEventListener('change', () => {
+  const immersionTopologyList = immersionTopologies(immersionSelect.value);
+  if (!immersionTopologyList.includes(topologySelect.value as Topology)) {
+    topologySelect.value = immersionTopologyList[0];
+  }
+});
+topologySelect.addEventListener('change', () => {
+  const selectedTopology = topologySelect.value as Topology;
+  if (!immersionTopologies(immersionSelect.value).includes(selectedTopology)) {
+    immersionSelect.value = defaultImmersion(selectedTopology);
+  }
+});
+let antMode = sharedState ? sharedState.ant.enabled : params.get('ant') !== null;
 let antModeTransition = false;
-let antProgress = 2.6 * Math.PI;
+let antProgress = sharedState ? sharedState.ant.progress : 2.6 * Math.PI;
 const antSpeed = Number(params.get('antspeed')) || 0.0002;
 const antHeight = Number(params.get('antheight')) || 0.1;
 const fovY = Number(params.get('fovy')) || 60;
@@ -68,8 +224,17 @@ const settings = {
   edges: true, // Toggles visibility of wireframe (hidden checkbox)
   faces: true, // Toggles visibility of live cells (hidden checkbox)
   animate: true, // Makes it rotate by itself
+  map: false, // Shows the flat map next to the 3D view
+  ageMode: false, // Colors live cells by age
+  morph: true, // Animates changes of shape instead of switching instantly
   lifeStepsPerSecond: 10,
+  maxSpeed: false, // Runs as many steps per frame as the frame rate allows
+  // Reinitializes the grid when it has been stable (a still life or
+  // oscillator) for reseedAfter generations, for running unattended.
+  autoReseed: false,
+  reseedAfter: 100,
   ...savedSettings,
+  ...sharedState?.settings,
 };
 
 function saveSettings() {
@@ -92,6 +257,7 @@ const savedOrbit = JSON.parse(
 const orbit = {
   ...orbitDefaults,
   ...savedOrbit,
+  ...sharedState?.orbit,
 };
 
 function saveOrbit() {
@@ -139,10 +305,20 @@ const edgesCheckbox = document.getElementById('edges') as HTMLInputElement;
 const facesCheckbox = document.getElementById('faces') as HTMLInputElement;
 const animateCheckbox = document.getElementById('animate') as HTMLInputElement;
 const antModeCheckbox = document.getElementById('antmode') as HTMLInputElement;
+const mapCheckbox = document.getElementById('map') as HTMLInputElement;
+const mapView = document.getElementById('map-view') as HTMLElement;
+const paintModeCheckbox = document.getElementById('paintmode') as HTMLInputElement;
+const ageModeCheckbox = document.getElementById('agemode') as HTMLInputElement;
+ageModeCheckbox.checked = settings.ageMode;
+// The listener for ageModeCheckbox has to be added after the ToroidalLife
+// object is created.
+let paintMode = paintModeCheckbox.checked;
 edgesCheckbox.checked = settings.edges;
 facesCheckbox.checked = settings.faces;
 animateCheckbox.checked = settings.animate;
 antModeCheckbox.checked = antMode;
+mapCheckbox.checked = settings.map;
+mapView.style.display = settings.map ? 'block' : 'none';
 edgesCheckbox.addEventListener('change', () => {
   settings.edges = edgesCheckbox.checked;
   saveSettings();
@@ -164,6 +340,15 @@ antModeCheckbox.addEventListener('change', () => {
   prevGoalCamera = undefined;
   console.log('Ant mode transition started');
 });
+mapCheckbox.addEventListener('change', () => {
+  settings.map = mapCheckbox.checked;
+  mapView.style.display = settings.map ? 'block' : 'none';
+  saveSettings();
+});
+paintModeCheckbox.addEventListener('change', () => {
+  paintMode = paintModeCheckbox.checked;
+  canvas.style.cursor = paintMode ? 'crosshair' : '';
+});
 const resetCameraButton = document.getElementById('reset-camera') as HTMLButtonElement;
 resetCameraButton.addEventListener('click', () => {
   Object.assign(orbit, orbitDefaults);
@@ -172,9 +357,38 @@ resetCameraButton.addEventListener('click', () => {
   saveOrbit();
 });
 const lifeSpeedInput = document.getElementById('life-speed') as HTMLInputElement;
+const maxSpeedCheckbox = document.getElementById('max-speed') as HTMLInputElement;
 const lifeStepButton = document.getElementById('life-step') as HTMLButtonElement;
+const lifeBackButton = document.getElementById('life-back') as HTMLButtonElement;
+const historyScrub = document.getElementById('history-scrub') as HTMLInputElement;
+const generationElement = document.getElementById('generation') as HTMLElement;
+const generationRateElement = document.getElementById('generation-rate') as HTMLElement;
+const gotoGenerationInput = document.getElementById('goto-generation') as HTMLInputElement;
+const gotoButton = document.getElementById('goto') as HTMLButtonElement;
+const populationElement = document.getElementById('population') as HTMLElement;
+const populationChart = new PopulationChart(
+  document.getElementById('population-chart') as HTMLCanvasElement,
+);
+const cycleElement = document.getElementById('cycle') as HTMLElement;
+const autoReseedCheckbox = document.getElementById('auto-reseed') as HTMLInputElement;
+const reseedAfterInput = document.getElementById('reseed-after') as HTMLInputElement;
+autoReseedCheckbox.checked = settings.autoReseed;
+reseedAfterInput.value = String(settings.reseedAfter);
+autoReseedCheckbox.addEventListener('change', () => {
+  settings.autoReseed = autoReseedCheckbox.checked;
+  saveSettings();
+});
+reseedAfterInput.addEventListener('input', () => {
+  const value = Number(reseedAfterInput.value);
+  if (reseedAfterInput.value.trim() !== '' && value >= 0) {
+    settings.reseedAfter = Math.floor(value);
+    saveSettings();
+  }
+});
 lifeSpeedInput.value = settings.lifeStepsPerSecond;
-lifeStepButton.disabled = settings.lifeStepsPerSecond !== 0;
+maxSpeedCheckbox.checked = settings.maxSpeed;
+lifeSpeedInput.disabled = settings.maxSpeed;
+lifeStepButton.disabled = settings.maxSpeed || settings.lifeStepsPerSecond !== 0;
 function updateLifeSpeed() {
   if (lifeSpeedInput.value.trim() == '') {
     return;
@@ -187,10 +401,16 @@ function updateLifeSpeed() {
     ),
   );
   lifeSpeedInput.value = String(settings.lifeStepsPerSecond);
-  lifeStepButton.disabled = settings.lifeStepsPerSecond !== 0;
+  lifeStepButton.disabled = settings.maxSpeed || settings.lifeStepsPerSecond !== 0;
   saveSettings();
 }
 lifeSpeedInput.addEventListener('input', updateLifeSpeed);
+maxSpeedCheckbox.addEventListener('change', () => {
+  settings.maxSpeed = maxSpeedCheckbox.checked;
+  lifeSpeedInput.disabled = settings.maxSpeed;
+  lifeStepButton.disabled = settings.maxSpeed || settings.lifeStepsPerSecond !== 0;
+  saveSettings();
+});
 
 const hotKeys: Record<string, () => void> = {
   'a': () => {
@@ -204,12 +424,27 @@ const hotKeys: Record<string, () => void> = {
     lifeSpeedInput.value = String(Number(lifeSpeedInput.value) - 1);
     updateLifeSpeed();
   },
+  'x': () => {
+    maxSpeedCheckbox.click();
+  },
   ' ': () => {
     lifeStepButton.click();
   },
+  ',': () => {
+    lifeBackButton.click();
+  },
+  '.': () => {
+    life.stepForward();
+  },
   'm': () => {
     antModeCheckbox.click();
   },
+  'f': () => {
+    mapCheckbox.click();
+  },
+  'p': () => {
+    paintModeCheckbox.click();
+  },
   'r': () => {
     resetCameraButton.click();
   },
@@ -245,10 +480,41 @@ const propagateHotKeys = (event: KeyboardEvent) => {
 };
 
 lifeSpeedInput.addEventListener('keydown', propagateHotKeys);
+historyScrub.addEventListener('keydown', propagateHotKeys);
+reseedAfterInput.addEventListener('keydown', propagateHotKeys);
 const initializeSelect = document.getElementById('initialize') as HTMLSelectElement;
 initializeSelect.addEventListener('keydown', propagateHotKeys);
-// lifeStepButton click and initializeSelect change listeners have to be added
-// later, after the ToroidalLife object is created.
+const ruleInput = document.getElementById('rule') as HTMLInputElement;
+const rulePresetList = document.getElementById('rule-presets') as HTMLDataListElement;
+for (const preset of [...rulePresets, ...continuousRulePresets]) {
+  const option = document.createElement('option');
+  option.value = preset.rule;
+  option.label = preset.name;
+  rulePresetList.append(option);
+}
+const seedInput = document.getElementById('seed') as HTMLInputElement;
+// Letters are typed into the rule and seed inputs, so don't let them trigger
+// hot keys.
+const stopHotKeys = (event: KeyboardEvent) => {
+  event.stopPropagation();
+};
+ruleInput.addEventListener('keydown', stopHotKeys);
+gotoGenerationInput.addEventListener('keydown', stopHotKeys);
+seedInput.addEventListener('keydown', stopHotKeys);
+const loadPatternButton = document.getElementById('load-pattern') as HTMLButtonElement;
+const patternFileInput = document.getElementById('pattern-file') as HTMLInputElement;
+const patternXInput = document.getElementById('pattern-x') as HTMLInputElement;
+const patternYInput = document.getElementById('pattern-y') as HTMLInputElement;
+const saveRleButton = document.getElementById('save-rle') as HTMLButtonElement;
+const shareButton = document.getElementById('share') as HTMLButtonElement;
+patternXInput.addEventListener('keydown', propagateHotKeys);
+patternYInput.addEventListener('keydown', propagateHotKeys);
+loadPatternButton.addEventListener('click', () => {
+  patternFileInput.click();
+});
+// Listeners for lifeStepButton, initializeSelect, ruleInput, seedInput,
+// patternFileInput, saveRleButton and shareButton have to be added later,
+// after the ToroidalLife object is created.
 
 type TypedArrayView = Float32Array | Uint32Array;
 
@@ -280,6 +546,7 @@ function createVertexAndIndexBuffer(
     device,
     vertices,
     GPUBufferUsage.VERTEX | GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST
+      | GPUBufferUsage.COPY_SRC
   );
   const indexBuffer = createBufferWithData(
     device,
@@ -306,6 +573,14 @@ const device = await adapter?.requestDevice({
   requiredLimits: limits,
 });
 quitIfWebGPUNotAvailable(adapter, device);
+// The Life compute shader needs three storage buffers (two generations of
+// cells and the statistics). If compute shaders can't have that many (or any),
+// we fall back to running Life on the CPU.
+const computeAvailable = device.limits.maxComputeInvocationsPerWorkgroup > 0
+  && device.limits.maxStorageBuffersPerShaderStage >= 3;
+if (!computeAvailable) {
+  console.warn('Compute shaders not available; running Life on the CPU');
+}
 
 const canvas = document.getElementById('the-canvas') as HTMLCanvasElement;
 const context = canvas.getContext('webgpu') as GPUCanvasContext;
@@ -323,16 +598,25 @@ const depthFormat = 'depth24plus';
 let dragging = false;
 let lastX = 0;
 let lastY = 0;
+// In paint mode, dragging paints cells instead of moving the camera.
+let painting = false;
 
 canvas.addEventListener('mousedown', (ev) => {
   ev.preventDefault();
+  if (paintMode) {
+    painting = true;
+    paintAt(ev.clientX, ev.clientY, true);
+    return;
+  }
   dragging = true;
   lastX = ev.clientX;
   lastY = ev.clientY;
 });
 canvas.addEventListener('mousemove', (ev) => {
   ev.preventDefault();
-  if (dragging) {
+  if (painting) {
+    paintAt(ev.clientX, ev.clientY, false);
+  } else if (dragging) {
     const deltaX = ev.clientX - lastX;
     const deltaY = ev.clientY - lastY;
     lastX = ev.clientX;
@@ -346,11 +630,17 @@ canvas.addEventListener('mousemove', (ev) => {
 canvas.addEventListener('mouseup', (ev) => {
   ev.preventDefault();
   dragging = false;
+  painting = false;
 });
 canvas.addEventListener('touchstart', (ev) => {
   ev.preventDefault();
   if (ev.touches.length >= 1) {
     const touch = ev.touches.item(0)!;
+    if (paintMode) {
+      painting = true;
+      paintAt(touch.clientX, touch.clientY, true);
+      return;
+    }
     lastX = touch.clientX;
     lastY = touch.clientY;
     dragging = true;
@@ -358,7 +648,10 @@ canvas.addEventListener('touchstart', (ev) => {
 });
 canvas.addEventListener('touchmove', (ev) => {
   ev.preventDefault();
-  if (ev.touches.length === 1) {
+  if (painting) {
+    const touch = ev.touches.item(0)!;
+    paintAt(touch.clientX, touch.clientY, false);
+  } else if (ev.touches.length === 1) {
     const touch = ev.touches.item(0)!;
     const deltaX = touch.clientX - lastX;
     const deltaY = touch.clientY - lastY;
@@ -373,6 +666,7 @@ canvas.addEventListener('touchmove', (ev) => {
 canvas.addEventListener('touchend', (ev) => {
   ev.preventDefault();
   dragging = false;
+  painting = false;
 });
 canvas.addEventListener('wheel', (ev) => {
   ev.preventDefault();
@@ -384,8 +678,16 @@ canvas.addEventListener('touchstart', (ev) => {
   ev.preventDefault();
 });
 
-const modelData = kleinBottle(tubularSegments, radialSegments, immersion, hexColor);
-const model = createVertexAndIndexBuffer(device, modelData);
+let model = createVertexAndIndexBuffer(
+  device,
+  kleinBottle(tubularSegments, radialSegments, immersion, hexColor),
+);
+// The surface the model was made from. It's different from the one named by
+// immersion if a user-defined surface has been replaced since then.
+let modelSurface = getSurface(immersion);
+// Changes of shape are animated with a compute shader, if possible.
+const shapeMorph = computeAvailable ? new ShapeMorph(device) : undefined;
+const morphDuration = Number(params.get('morphtime')) || 3000; // In milliseconds
 
 // More WebGPU stuff
 // "Lit" refers to the filled-in polygons with a lighting model, as opposed to
@@ -415,6 +717,51 @@ const cellStateBindGroupLayout = device.createBindGroupLayout({
   }],
 });
 
+// Layout of the vertex buffer created by kleinBottle().
+const modelVertexBuffers: GPUVertexBufferLayout[] = [
+  {
+    arrayStride: 14 * 4,
+    attributes: [
+      {
+        // position
+        shaderLocation: 0,
+        offset: 0,
+        format: 'float32x3',
+      },
+      {
+        // normal
+        shaderLocation: 1,
+        offset: 3 * 4,
+        format: 'float32x3',
+      },
+      {
+        // front color
+        shaderLocation: 2,
+        offset: 6 * 4,
+        format: 'float32x3',
+      },
+      {
+        // back color
+        shaderLocation: 3,
+        offset: 9 * 4,
+        format: 'float32x3',
+      },
+      {
+        // tubular coordinate
+        shaderLocation: 4,
+        offset: 12 * 4,
+        format: 'float32',
+      },
+      {
+        // radial coordinate
+        shaderLocation: 5,
+        offset: 13 * 4,
+        format: 'float32',
+      },
+    ],
+  },
+];
+
 const litPipeline: GPURenderPipeline = device.createRenderPipeline({
   label: 'lit pipeline',
   layout: device.createPipelineLayout({
@@ -422,49 +769,7 @@ const litPipeline: GPURenderPipeline = device.createRenderPipeline({
   }),
   vertex: {
     module: litModule,
-    buffers: [
-      {
-        arrayStride: 14 * 4,
-        attributes: [
-          {
-            // position
-            shaderLocation: 0,
-            offset: 0,
-            format: 'float32x3',
-          },
-          {
-            // normal
-            shaderLocation: 1,
-            offset: 3 * 4,
-            format: 'float32x3',
-          },
-          {
-            // front color
-            shaderLocation: 2,
-            offset: 6 * 4,
-            format: 'float32x3',
-          },
-          {
-            // back color
-            shaderLocation: 3,
-            offset: 9 * 4,
-            format: 'float32x3',
-          },
-          {
-            // tubular coordinate
-            shaderLocation: 4,
-            offset: 12 * 4,
-            format: 'float32',
-          },
-          {
-            // radial coordinate
-            shaderLocation: 5,
-            offset: 13 * 4,
-            format: 'float32',
-          },
-        ],
-      },
-    ],
+    buffers: modelVertexBuffers,
   },
   fragment: {
     module: litModule,
@@ -558,6 +863,34 @@ const wireframePipeline = bcWireframe
       },
     });
 
+// The pick pipeline draws the model into an offscreen texture, where each
+// pixel holds the index (plus 1) and state of the cell drawn there, so we can
+// tell which cell is under the mouse.
+const pickFormat = 'rg32uint';
+const pickPipeline = device.createRenderPipeline({
+  label: 'pick pipeline',
+  layout: device.createPipelineLayout({
+    bindGroupLayouts: [litBindGroupLayout, cellStateBindGroupLayout],
+  }),
+  vertex: {
+    module: litModule,
+    buffers: modelVertexBuffers,
+  },
+  fragment: {
+    module: litModule,
+    entryPoint: 'fsPick',
+    targets: [{ format: pickFormat }],
+  },
+  primitive: {
+    cullMode: 'none',
+  },
+  depthStencil: {
+    depthWriteEnabled: true,
+    depthCompare: 'less',
+    format: depthFormat,
+  },
+});
+
 // Make a uniform buffer and type array views
 // for our uniforms.
 const uniformValues = new ArrayBuffer(4 * Math.max(16 + 16 + 3 + 2, 144));
@@ -598,81 +931,709 @@ const bcwParams = new Float32Array(
 );
 bcwParams[0] = bcwWidth;
 bcwParams[1] = bcwAlphaThreshold;
+const kColoringOffset = kBcwParamsOffset + 2 * f32bytes;
+// Number of states of the Life rule, whether the states are ages, and whether
+// they're continuous values.
+const coloringValues = new Uint32Array(
+  uniformValues,
+  kColoringOffset,
+  3,
+);
 // Make a bind group for this uniform
 const litBindGroup = device.createBindGroup({
   label: 'Lit pipeline bind group',
   layout: litBindGroupLayout,
   entries: [{ binding: 0, resource: { buffer: uniformBuffer } }],
 });
-const wireframeBindGroup = device.createBindGroup({
-  label: 'Wireframe pipeline bind group',
-  layout: wireframePipeline.getBindGroupLayout(0),
-  entries: [
-    { binding: 0, resource: { buffer: uniformBuffer } },
-    { binding: 1, resource: { buffer: model.vertexBuffer } },
-    { binding: 2, resource: { buffer: model.indexBuffer } },
-  ],
-});
-const scale = 8;
+// The wireframe shader reads the model's buffers, so this is recreated along
+// with them.
+function createWireframeBindGroup(): GPUBindGroup {
+  return device.createBindGroup({
+    label: 'Wireframe pipeline bind group',
+    layout: wireframePipeline.getBindGroupLayout(0),
+    entries: [
+      { binding: 0, resource: { buffer: uniformBuffer } },
+      { binding: 1, resource: { buffer: model.vertexBuffer } },
+      { binding: 2, resource: { buffer: model.indexBuffer } },
+    ],
+  });
+}
+let wireframeBindGroup = createWireframeBindGroup();
 const translation: Vec3Arg = [0, 0, 0];
 
-const life = new ToroidalLife(device, tubularSegments, radialSegments);
-
-function initLife(pattern: string) {
-  switch (pattern) {
-    case 'random':
-      life.setRandom(.3);
-      break;
-    case 'gliders':
-    case 'randomgliders':
-      life.setRandomGliders(.4);
-      break;
-    case 'oneglider':
-      life.setOneGlider();
-      break;
-    case 'rings':
-      life.setYStripes();
-      break;
-    // case 'stripes':
-    //   life.setXStripes();
-    //   break;
-    case 'randomrings':
-      life.setRandomYStripes();
-      break;
-    case 'randomstripes':
-      life.setRandomXStripes();
-      break;
-    case 'squares':
-      life.setSquares();
-      break;
-    case 'anttrack':
-      // Draws a stripe under the ant's path (assuming v = pi/4)
-      life.setRandom(0.5);
-      life.drawXStripe(radialSegments / 8);
-      life.drawXStripe(radialSegments / 8 - 1);
-      life.upload();
-      break;
-    case 'empty':
-      life.setEmpty();
-      break;
-    case 'full':
-      life.setFull();
-  }
-}
-
-initLife(initPattern);
+let life = new ToroidalLife(device, tubularSegments, radialSegments, {
+  rule: initialRule,
+  topology,
+  cpu: forceCpuEngine || !computeAvailable,
+  ageMode: settings.ageMode,
+});
+ageModeCheckbox.addEventListener('change', () => {
+  settings.ageMode = ageModeCheckbox.checked;
+  life.setAgeMode(settings.ageMode);
+  saveSettings();
+});
+ruleInput.value = ruleParam;
+if (ruleParamError) {
+  ruleInput.setCustomValidity(ruleParamError);
+  ruleInput.reportValidity();
+}
+// For scripting from the browser console, e.g. to collect population curves
+// with life.stats or life.onStats.
+window.life = life;
+
+// The last pattern passed to initLife, so it can be reinitialized with a
+// different seed.
+let currentPattern = initPattern;
+
+/** Initializes the grid to one of the preset patterns. The seed is used by
+ * the random ones; by default a new one is chosen. */
+function initLife(pattern: string, seed = newSeed()) {
+  currentPattern = pattern;
+  life.setSeed(seed);
+  seedInput.value = String(seed);
+  if (pattern === 'anttrack') {
+    // Draws a stripe under the ant's path (assuming v = pi/4)
+    life.setRandom(0.5);
+    life.drawXStripe(Math.floor(radialSegments / 8));
+    life.drawXStripe(Math.floor(radialSegments / 8) - 1);
+    life.upload();
+  } else {
+    life.setPattern(pattern);
+  }
+}
+
+/** Sets the grid to the contents of a shared link. Returns false if they
+ * can't be decoded or don't fit the grid. */
+function restoreSharedState(state: SharedState): boolean {
+  if (!Number.isSafeInteger(state.step) || state.step < 0) {
+    return false;
+  }
+  try {
+    if (state.cells) {
+      const cells = decodeCells(state.cells);
+      if (cells.length !== tubularSegments * radialSegments) {
+        return false;
+      }
+      life.setState(cells, state.step);
+    } else {
+      const pattern = parseRLE(state.rle!);
+      life.clear();
+      life.placePattern(pattern, 0, 0);
+      life.setState(life.cellStateArray.slice(), state.step);
+    }
+  } catch (error) {
+    console.warn(`Couldn't restore the grid from the URL: ${error}`);
+    return false;
+  }
+  return true;
+}
+
+if (!sharedState || !restoreSharedState(sharedState)) {
+  initLife(initPattern, seedParam !== null ? parseSeed(seedParam) : undefined);
+}
+
+const flatView = new FlatView(
+  device,
+  document.getElementById('map-canvas') as HTMLCanvasElement,
+  document.getElementById('map-overlay') as HTMLCanvasElement,
+  presentationFormat,
+  tubularSegments,
+  radialSegments,
+  topology,
+);
 
 // Listeners for the last controls
 initializeSelect.addEventListener('change', () => {
   initLife(initializeSelect.value);
 });
+seedInput.addEventListener('change', () => {
+  initLife(currentPattern, parseSeed(seedInput.value));
+});
 lifeStepButton.addEventListener('click', () => {
-  life.update();
+  life.stepForward();
+});
+lifeBackButton.addEventListener('click', () => {
+  life.stepBack();
+});
+historyScrub.addEventListener('input', () => {
+  life.restore(Number(historyScrub.value));
+});
+
+// While running to a generation, this aborts the run, and the simulation
+// doesn't step by itself.
+let gotoController: AbortController | undefined;
+async function gotoGeneration() {
+  if (gotoController) {
+    gotoController.abort();
+    return;
+  }
+  const target = Math.floor(Number(gotoGenerationInput.value));
+  if (gotoGenerationInput.value.trim() === '' || !(target >= 0)) {
+    return;
+  }
+  const controller = new AbortController();
+  gotoController = controller;
+  gotoButton.innerText = 'Stop';
+  let lastStep = life.step;
+  const reached = await life.runTo(target, {
+    signal: controller.signal,
+    onProgress: () => {
+      stepsSinceRateCheckpoint += life.step - lastStep;
+      lastStep = life.step;
+    },
+  });
+  gotoController = undefined;
+  gotoButton.innerText = 'Go';
+  if (!reached && !controller.signal.aborted) {
+    window.alert(`Generation ${target} is no longer in the history.`);
+  }
+}
+gotoButton.addEventListener('click', gotoGeneration);
+gotoGenerationInput.addEventListener('keydown', (event) => {
+  if (event.key === 'Enter') {
+    gotoGeneration();
+  }
+});
+
+// Changing the shape, grid size or topology in the advanced options
+// rebuilds the model and the simulation in place, keeping the current
+// generation. A change of shape alone can be animated (see morph.ts). Only
+// the wide lines options require reloading.
+const advancedForm = document.getElementById('advanced-form') as HTMLFormElement;
+const morphCheckbox = document.getElementById('morph') as HTMLInputElement;
+morphCheckbox.checked = settings.morph;
+morphCheckbox.disabled = !shapeMorph;
+morphCheckbox.addEventListener('change', () => {
+  settings.morph = morphCheckbox.checked;
+  saveSettings();
 });
 
+// While the grid is being replaced by one of a different size, the simulation
+// doesn't step by itself.
+let resizing = false;
+
+/** Changes the grid size, shape and topology without reloading. The current
+ * generation is kept, resampled onto the new grid if the size changed. */
+async function reshape(
+  newTubularSegments: number,
+  newRadialSegments: number,
+  newImmersion: string,
+  newTopology: Topology,
+) {
+  gotoController?.abort();
+  const resized = newTubularSegments !== tubularSegments
+    || newRadialSegments !== radialSegments;
+  if (resized) {
+    const oldLife = life;
+    // Generations computed after the snapshot would be lost, so the
+    // simulation has to wait until the new grid takes over.
+    resizing = true;
+    let snapshot;
+    try {
+      snapshot = await oldLife.snapshot();
+    } finally {
+      resizing = false;
+    }
+    const newLife = new ToroidalLife(device, newTubularSegments, newRadialSegments, {
+      rule: oldLife.ruleString(),
+      topology: newTopology,
+      cpu: oldLife.cpu,
+      seed: oldLife.seed,
+      ageMode: settings.ageMode,
+    });
+    newLife.setResampledState(snapshot);
+    life = newLife;
+    window.life = life;
+    await oldLife.statsSettled();
+    oldLife.destroy();
+  } else if (newTopology !== topology) {
+    life.setTopology(newTopology);
+  }
+  const newSurface = getSurface(newImmersion);
+  if (!resized && newSurface !== modelSurface && settings.morph
+    && shapeMorph?.canMorph((tubularSegments + 1) * (radialSegments + 1))) {
+    // The model keeps its buffers; only the positions and normals change.
+    shapeMorph.start(
+      model.vertexBuffer,
+      kleinBottle(tubularSegments, radialSegments, newImmersion, hexColor).vertices,
+      immersion,
+      newImmersion,
+      morphDuration,
+    );
+  } else if (resized || newSurface !== modelSurface) {
+    shapeMorph?.stop();
+    const oldModel = model;
+    model = createVertexAndIndexBuffer(
+      device,
+      kleinBottle(newTubularSegments, newRadialSegments, newImmersion, hexColor),
+    );
+    wireframeBindGroup = createWireframeBindGroup();
+    oldModel.vertexBuffer.destroy();
+    oldModel.indexBuffer.destroy();
+  }
+  tubularSegments = newTubularSegments;
+  radialSegments = newRadialSegments;
+  immersion = newImmersion;
+  modelSurface = newSurface;
+  topology = newTopology;
+  flatView.setGrid(tubularSegments, radialSegments, topology);
+  patternXInput.value = String(Math.floor(tubularSegments / 2));
+  patternYInput.value = String(Math.floor(radialSegments / 2));
+
+  // Reloading the page should give the same grid and shape.
+  params.set('grid', `${tubularSegments}x${radialSegments}`);
+  params.set('immersion', immersion);
+  params.set('topology', topology);
+  const url = new URL(window.location.href);
+  url.searchParams.set('grid', params.get('grid')!);
+  url.searchParams.set('immersion', immersion);
+  url.searchParams.set('topology', topology);
+  // A user-defined surface from a shared link isn't saved in localStorage, so
+  // it has to stay in the URL while it's shown.
+  const { formula } = newSurface;
+  if (formula && immersion === unsavedSurface) {
+    params.set('surface', JSON.stringify(formula));
+    url.searchParams.set('surface', params.get('surface')!);
+  } else {
+    params.delete('surface');
+    url.searchParams.delete('surface');
+  }
+  window.history.replaceState(null, '', url);
+}
+
+// Changes are applied one at a time, since each one starts from the result of
+// the previous one.
+let reshaping = Promise.resolve();
+
+/** Applies the grid size, shape and topology in the advanced options form, if
+ * they're valid. */
+function reshapeFromForm() {
+  const [width, height] = gridSelect.value.toLowerCase().split('x').map(Number);
+  if (!gridSelect.checkValidity() || !(width > 0 && height > 0)) {
+    gridSelect.reportValidity();
+    return;
+  }
+  const selectedImmersion = immersionSelect.value;
+  const selectedTopology = topologySelect.value as Topology;
+  reshaping = reshaping
+    .then(() => reshape(width, height, selectedImmersion, selectedTopology))
+    .catch((error) => window.alert((error as Error).message));
+}
+gridSelect.addEventListener('change', reshapeFromForm);
+immersionSelect.addEventListener('change', reshapeFromForm);
+topologySelect.addEventListener('change', reshapeFromForm);
+advancedForm.addEventListener('submit', (event) => {
+  // The form is only really submitted if the wide lines options changed.
+  if (bcwElement.checked === bcWireframe && Number(bcwWidthElement.value) === bcwWidth) {
+    event.preventDefault();
+    reshapeFromForm();
+  }
+});
+
+// The shape editor, for trying out new surfaces without rebuilding the app.
+// Added shapes appear in the shape menu.
+const surfaceXInput = document.getElementById('surface-x') as HTMLInputElement;
+const surfaceYInput = document.getElementById('surface-y') as HTMLInputElement;
+const surfaceZInput = document.getElementById('surface-z') as HTMLInputElement;
+const surfaceScaleInput = document.getElementById('surface-scale') as HTMLInputElement;
+const surfaceTopologySelect = document.getElementById('surface-topology') as HTMLSelectElement;
+const surfaceNameInput = document.getElementById('surface-name') as HTMLInputElement;
+const surfaceAddButton = document.getElementById('surface-add') as HTMLButtonElement;
+(document.getElementById('surface-help') as HTMLElement).innerText =
+  `Formulas can use + - * / ^, the constants pi, tau and e, and ${formulaFunctions.join(', ')}.`
+  + ' The shape is drawn correctly only if it glues the edges together the way the'
+  + ' topology does.';
+for (const { name, label } of topologies) {
+  const option = document.createElement('option');
+  option.value = name;
+  option.innerText = label;
+  surfaceTopologySelect.append(option);
+}
+
+// The figure 8 immersion, as an example to start from.
+const exampleSurface: SurfaceFormula = {
+  name: 'my-shape',
+  x: '2 * (4 + cos(u/2) * cos(v) + sin(u/2) * sin(2*v)) * cos(u)',
+  y: '2 * (sin(u/2) * cos(v) - cos(u/2) * sin(2*v))',
+  z: '2 * (4 + cos(u/2) * cos(v) + sin(u/2) * sin(2*v)) * sin(u)',
+  scale: 8,
+  topology: 'klein',
+};
+
+/** Fills in the shape editor with the formulas for a surface. */
+function showSurfaceFormula(formula: SurfaceFormula) {
+  surfaceNameInput.value = formula.name;
+  surfaceXInput.value = formula.x;
+  surfaceYInput.value = formula.y;
+  surfaceZInput.value = formula.z;
+  surfaceScaleInput.value = String(formula.scale);
+  surfaceTopologySelect.value = formula.topology;
+}
+showSurfaceFormula(getSurface(immersion).formula ?? exampleSurface);
+immersionSelect.addEventListener('change', () => {
+  const { formula } = getSurface(immersionSelect.value);
+  if (formula) {
+    showSurfaceFormula(formula);
+  }
+});
+
+surfaceAddButton.addEventListener('click', () => {
+  let surface;
+  try {
+    surface = formulaSurface({
+      name: surfaceNameInput.value.trim(),
+      x: surfaceXInput.value,
+      y: surfaceYInput.value,
+      z: surfaceZInput.value,
+      scale: Number(surfaceScaleInput.value),
+      topology: surfaceTopologySelect.value as Topology,
+    });
+    registerSurface(surface);
+  } catch (error) {
+    window.alert((error as Error).message);
+    return;
+  }
+  if (surface.name === unsavedSurface) {
+    unsavedSurface = undefined;
+  }
+  saveSurfaces();
+  updateImmersionOptions();
+  immersionSelect.value = surface.name;
+  topologySelect.value = surface.topologies[0];
+  reshapeFromForm();
+});
+
+/** Updates the history scrubber and generation display to match the
+ * simulation. */
+function updateHistoryControls() {
+  const { start, end } = life.history;
+  if (Number(historyScrub.min) !== start || Number(historyScrub.max) !== end) {
+    historyScrub.min = String(start);
+    historyScrub.max = String(end);
+  }
+  if (Number(historyScrub.value) !== life.step) {
+    historyScrub.value = String(life.step);
+  }
+  generationElement.innerText = `Gen ${life.step}`;
+  lifeBackButton.disabled = !life.history.has(life.step - 1);
+}
+
+/** Updates the generations per second readout about twice a second. */
+function updateGenerationRate(ts: number) {
+  if (lastRateCheckpoint === undefined) {
+    lastRateCheckpoint = ts;
+  }
+  if (ts - lastRateCheckpoint >= 500) {
+    const rate = stepsSinceRateCheckpoint * 1000 / (ts - lastRateCheckpoint);
+    generationRateElement.innerText = rate > 0 ? `${Math.round(rate)} gen/s` : '';
+    stepsSinceRateCheckpoint = 0;
+    lastRateCheckpoint = ts;
+  }
+}
+
+/** Updates the population readout and chart. */
+function updateStats() {
+  // Statistics for the current step may not have arrived yet, in which case
+  // the latest ones are shown, labeled with their generation.
+  const stats = life.latestStats();
+  if (!stats) {
+    populationElement.innerText = 'Pop ?';
+  } else {
+    populationElement.innerText = `Pop ${stats.population} (+${stats.births} −${stats.deaths})`
+      + (stats.step === life.step ? '' : ` at gen ${stats.step}`);
+  }
+  populationChart.draw(life.stats, life.step);
+
+  const cycle = life.cycle;
+  if (!cycle) {
+    cycleElement.innerText = '';
+  } else if (cycle.period === 1) {
+    cycleElement.innerText = `Stable since gen ${cycle.start}`;
+  } else {
+    cycleElement.innerText = `Period ${cycle.period} since gen ${cycle.start}`;
+  }
+  const reseedPattern = settings.autoReseed
+    ? autoReseedPattern(currentPattern, cycle, life.step, settings.reseedAfter)
+    : undefined;
+  if (reseedPattern) {
+    initLife(reseedPattern);
+  }
+}
+ruleInput.addEventListener('change', () => {
+  try {
+    life.setRule(ruleInput.value);
+    ruleInput.setCustomValidity('');
+  } catch (error) {
+    ruleInput.setCustomValidity((error as Error).message);
+    ruleInput.reportValidity();
+  }
+});
+
+// Loading and saving pattern files
+patternXInput.value = String(Math.floor(tubularSegments / 2));
+patternYInput.value = String(Math.floor(radialSegments / 2));
+
+/** Replaces the grid contents with the pattern in a file, centered at the
+ * coordinates in the pattern x/y inputs. If it's an RLE file that specifies a
+ * rule, the rule is used too. */
+async function loadPatternFile(file: File) {
+  let pattern;
+  try {
+    pattern = parsePattern(await file.text(), file.name);
+  } catch (error) {
+    window.alert(`Couldn't load ${file.name}: ${(error as Error).message}`);
+    return;
+  }
+  if (pattern.rule) {
+    try {
+      life.setRule(pattern.rule);
+      ruleInput.value = life.ruleString();
+      ruleInput.setCustomValidity('');
+    } catch (error) {
+      console.warn(`Ignoring rule in ${file.name}: ${(error as Error).message}`);
+    }
+  }
+  life.clear();
+  life.placePattern(
+    pattern,
+    (Number(patternXInput.value) || 0) - Math.floor(pattern.width / 2),
+    (Number(patternYInput.value) || 0) - Math.floor(pattern.height / 2),
+  );
+  life.upload();
+}
+
+patternFileInput.addEventListener('change', () => {
+  const file = patternFileInput.files?.[0];
+  if (file) {
+    loadPatternFile(file);
+  }
+  // Allow the same file to be loaded again.
+  patternFileInput.value = '';
+});
+canvas.addEventListener('dragover', (ev) => {
+  ev.preventDefault();
+});
+canvas.addEventListener('drop', (ev) => {
+  ev.preventDefault();
+  const file = ev.dataTransfer?.files[0];
+  if (file) {
+    loadPatternFile(file);
+  }
+});
+
+/** Makes the browser download a file with the given contents. */
+function downloadFile(fileName: string, contents: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Converts cell states to 1 for live cells and 0 for dead or dying ones, for
+ * saving as a pattern. */
+function liveCells(cells: Uint32Array): Uint32Array {
+  return cells.map((state) => (life.isAlive(state) ? 1 : 0));
+}
+
+/** Returns a URL that restores the current state of everything when opened. */
+async function createPermalink(): Promise<string> {
+  const snapshot = await life.snapshot();
+  const sharedParams = Object.fromEntries(params);
+  // The grid contents replace the initial pattern.
+  delete sharedParams.init;
+  delete sharedParams.seed;
+  // A user-defined surface has to be included, since it won't be saved in the
+  // recipient's browser.
+  delete sharedParams.surface;
+  const { formula } = getSurface(immersion);
+  if (formula) {
+    sharedParams.surface = JSON.stringify(formula);
+  }
+  const state: SharedState = {
+    params: {
+      ...sharedParams,
+      grid: `${tubularSegments}x${radialSegments}`,
+      immersion,
+      topology,
+      rule: life.ruleString(),
+    },
+    step: snapshot.step,
+    orbit: { ...orbit },
+    ant: { enabled: antMode, progress: antProgress },
+    settings: { ...settings },
+  };
+  // RLE only has live and dead cells, which would lose the dying cells of
+  // Generations rules, ages, and the values of continuous rules.
+  if (life.continuousRule || life.rule.states > 2 || life.countsAges()) {
+    state.cells = encodeCells(snapshot.cells);
+  } else {
+    state.rle = toRLE(liveCells(snapshot.cells), snapshot.width, snapshot.height);
+  }
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = await encodeState(state);
+  return url.href;
+}
+
+shareButton.addEventListener('click', async () => {
+  let url;
+  try {
+    url = await createPermalink();
+  } catch (error) {
+    window.alert(`Couldn't create a link: ${(error as Error).message}`);
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText(url);
+    shareButton.innerText = 'Link copied!';
+    setTimeout(() => {
+      shareButton.innerText = 'Share';
+    }, 2000);
+  } catch {
+    window.prompt('Copy this link:', url);
+  }
+});
+
+saveRleButton.addEventListener('click', async () => {
+  const snapshot = await life.snapshot();
+  downloadFile(
+    `kleinlife-${snapshot.step}.rle`,
+    toRLE(liveCells(snapshot.cells), snapshot.width, snapshot.height, life.ruleString()),
+  );
+});
+
+// Painting cells directly on the surface
+let pickTexture: GPUTexture | undefined;
+let pickDepthTexture: GPUTexture | undefined;
+let pickInProgress = false;
+let pendingPaint: [number, number] | undefined;
+let paintState = 1;
+
+/** Returns the index and state of the cell drawn at the given canvas pixel,
+ * or undefined if there is no cell there. This renders the whole model with
+ * the current camera position (only the one pixel is actually drawn) and
+ * reads back the result. */
+async function pickCell(
+  pixelX: number,
+  pixelY: number,
+): Promise<{ index: number; state: number } | undefined> {
+  if (
+    !pickTexture ||
+    pickTexture.width !== canvas.width ||
+    pickTexture.height !== canvas.height
+  ) {
+    pickTexture?.destroy();
+    pickDepthTexture?.destroy();
+    pickTexture = device.createTexture({
+      size: [canvas.width, canvas.height],
+      format: pickFormat,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.COPY_SRC,
+    });
+    pickDepthTexture = device.createTexture({
+      size: [canvas.width, canvas.height],
+      format: depthFormat,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+  }
+  const readBuffer = device.createBuffer({
+    label: 'pick readback',
+    size: 256, // Minimum bytesPerRow for copyTextureToBuffer
+    usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+  });
+  const encoder = device.createCommandEncoder();
+  const pass = encoder.beginRenderPass({
+    label: 'pick renderPass',
+    colorAttachments: [{
+      view: pickTexture.createView(),
+      clearValue: [0, 0, 0, 0],
+      loadOp: 'clear',
+      storeOp: 'store',
+    }],
+    depthStencilAttachment: {
+      view: pickDepthTexture!.createView(),
+      depthClearValue: 1.0,
+      depthLoadOp: 'clear',
+      depthStoreOp: 'store',
+    },
+  });
+  pass.setPipeline(pickPipeline);
+  pass.setScissorRect(pixelX, pixelY, 1, 1);
+  pass.setVertexBuffer(0, model.vertexBuffer);
+  pass.setIndexBuffer(model.indexBuffer, model.indexFormat);
+  pass.setBindGroup(0, litBindGroup);
+  pass.setBindGroup(1, device.createBindGroup({
+    label: 'Pick cell state bind group',
+    layout: cellStateBindGroupLayout,
+    entries: [{
+      binding: 0,
+      resource: { buffer: life.currentCellState },
+    }],
+  }));
+  pass.drawIndexed(model.vertexCount);
+  pass.end();
+  encoder.copyTextureToBuffer(
+    { texture: pickTexture, origin: [pixelX, pixelY] },
+    { buffer: readBuffer, bytesPerRow: 256 },
+    [1, 1],
+  );
+  device.queue.submit([encoder.finish()]);
+  await readBuffer.mapAsync(GPUMapMode.READ);
+  const [indexPlus1, state] = new Uint32Array(readBuffer.getMappedRange(0, 8));
+  readBuffer.unmap();
+  readBuffer.destroy();
+  return indexPlus1 ? { index: indexPlus1 - 1, state } : undefined;
+}
+
+/** Paints the cell under the given client (mouse or touch) coordinates. At
+ * the start of a stroke, the cell is toggled, and the rest of the stroke sets
+ * cells to the same state. */
+async function paintAt(clientX: number, clientY: number, startStroke: boolean) {
+  const rect = canvas.getBoundingClientRect();
+  const pixelX = Math.floor((clientX - rect.left) / rect.width * canvas.width);
+  const pixelY = Math.floor((clientY - rect.top) / rect.height * canvas.height);
+  if (pixelX < 0 || pixelY < 0 || pixelX >= canvas.width || pixelY >= canvas.height) {
+    return;
+  }
+  if (startStroke) {
+    pendingPaint = undefined;
+  } else if (pickInProgress) {
+    // Only one pick at a time; the latest position is painted when the
+    // current one finishes.
+    pendingPaint = [clientX, clientY];
+    return;
+  }
+  pickInProgress = true;
+  const cell = await pickCell(pixelX, pixelY);
+  pickInProgress = false;
+  if (cell) {
+    if (startStroke) {
+      paintState = life.isAlive(cell.state) ? 0 : 1;
+    }
+    life.writeCell(cell.index % tubularSegments, Math.floor(cell.index / tubularSegments), paintState);
+  }
+  if (pendingPaint && painting) {
+    const [nextX, nextY] = pendingPaint;
+    pendingPaint = undefined;
+    paintAt(nextX, nextY, false);
+  }
+}
+
 let depthTexture: GPUTexture | undefined;
 let multisampleTexture: GPUTexture | undefined;
 
+/** The scale of the model in the 3D view. While morphing from a shape with a
+ * different scale, it changes gradually too. */
+function modelScale(): number {
+  const scale = modelSurface.scale;
+  if (!shapeMorph?.running) {
+    return scale;
+  }
+  const fromScale = getSurface(shapeMorph.fromImmersion).scale;
+  return fromScale + (scale - fromScale) * shapeMorph.progress;
+}
+
 function getAntCameraTransform(progress: number, immersionType: string): CameraPosition {
   // Progress goes from 0 to 4π for two complete circuits
   // Map this to u and v coordinates on the Klein bottle surface
@@ -689,7 +1650,7 @@ function getAntCameraTransform(progress: number, immersionType: string): CameraP
 
   // Get position on Klein bottle surface
   const position = kleinBottleCoord(u, v, immersionType);
-  vec3.scale(position, scale, position);
+  vec3.scale(position, getSurface(immersionType).scale, position);
 
   // Get tangent vector in u direction (direction of crawling)
   const tangentU = kleinBottleTangentU(u, v, immersionType);
@@ -724,8 +1685,24 @@ function getAntCameraTransform(progress: number, immersionType: string): CameraP
   };
 }
 
+// In max speed mode, the number of steps per frame is adjusted to keep the
+// time between frames in this range (in ms).
+const MAX_SPEED_FAST_FRAME = 25;
+const MAX_SPEED_SLOW_FRAME = 40;
+// Upper limit for the number of steps per frame, in case the frame rate
+// doesn't reflect how busy the GPU is.
+const MAX_SPEED_MAX_STEPS = 4096;
+// At set speeds, steps are computed to catch up with the time that has
+// passed, but not for more than this long (in ms), e.g. after the tab has been
+// hidden.
+const MAX_CATCH_UP = 250;
+
 let lastFrame: number | undefined;
 let lastLifeStep: number | undefined;
+let maxSpeedSteps = 1; // Steps per frame in max speed mode
+// For the generations per second readout.
+let stepsSinceRateCheckpoint = 0;
+let lastRateCheckpoint: number | undefined;
 let cameraPosition: CameraPosition | undefined;
 let prevGoalCamera: CameraPosition | undefined;
 let frameRateCounter = 0;
@@ -734,12 +1711,33 @@ function render(ts: number) {
   if (lastLifeStep === undefined) {
     lastLifeStep = ts;
   }
-  const lifeStepMs = 1000 / settings.lifeStepsPerSecond;
-  const nextLifeStep = Math.max(ts, lastLifeStep + lifeStepMs);
-  if (ts >= nextLifeStep) {
-    life.update();
-    lastLifeStep = nextLifeStep;
+  let lifeSteps = 0;
+  if (gotoController || resizing) {
+    lastLifeStep = ts;
+  } else if (settings.maxSpeed) {
+    if (lastFrame !== undefined) {
+      const frameTime = ts - lastFrame;
+      if (frameTime < MAX_SPEED_FAST_FRAME) {
+        maxSpeedSteps = Math.min(MAX_SPEED_MAX_STEPS, Math.ceil(maxSpeedSteps * 1.25));
+      } else if (frameTime > MAX_SPEED_SLOW_FRAME) {
+        maxSpeedSteps = Math.max(1, Math.floor(maxSpeedSteps * 0.8));
+      }
+    }
+    lifeSteps = maxSpeedSteps;
+    lastLifeStep = ts;
+  } else if (settings.lifeStepsPerSecond > 0) {
+    const lifeStepMs = 1000 / settings.lifeStepsPerSecond;
+    lastLifeStep = Math.max(lastLifeStep, ts - Math.max(lifeStepMs, MAX_CATCH_UP));
+    lifeSteps = Math.floor((ts - lastLifeStep) / lifeStepMs);
+    lastLifeStep += lifeSteps * lifeStepMs;
+  } else {
+    lastLifeStep = ts;
+  }
+  if (lifeSteps > 0) {
+    life.update(lifeSteps);
+    stepsSinceRateCheckpoint += lifeSteps;
   }
+  updateGenerationRate(ts);
 
   if (lastFrame === undefined) {
     lastFrame = ts;
@@ -771,6 +1769,24 @@ function render(ts: number) {
     }
   }
 
+  shapeMorph?.update(ts);
+  updateHistoryControls();
+  updateStats();
+  if (settings.map) {
+    flatView.render(
+      life.currentCellState, life.rule.states, life.countsAges(), Boolean(life.continuousRule),
+    );
+  }
+
+  // The canvas changes size when the window is resized, or when the map is
+  // shown or hidden.
+  const canvasWidth = Math.max(1, Math.floor(canvas.clientWidth * devicePixelRatio));
+  const canvasHeight = Math.max(1, Math.floor(canvas.clientHeight * devicePixelRatio));
+  if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) {
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+  }
+
   // Get the current texture from the canvas context and
   // set it as the texture to render to.
   const canvasTexture = context.getCurrentTexture();
@@ -846,6 +1862,13 @@ function render(ts: number) {
   if (antMode) {
     // Use ant camera transform
     goalCamera = getAntCameraTransform(antProgress, immersion);
+    if (shapeMorph?.running) {
+      goalCamera = mixCameras(
+        getAntCameraTransform(antProgress, shapeMorph.fromImmersion),
+        goalCamera,
+        shapeMorph.progress,
+      );
+    }
   } else {
     // Use original orbiting camera
     goalCamera = {
@@ -893,7 +1916,7 @@ function render(ts: number) {
 
   const world = mat4.identity();
   mat4.translate(world, translation, world);
-  mat4.uniformScale(world, scale, world);
+  mat4.uniformScale(world, modelScale(), world);
 
   mat4.multiply(viewProjection, world, worldViewProjectionMatrixValue);
   mat3.multiply(view, world, worldMatrixValue);
@@ -902,6 +1925,9 @@ function render(ts: number) {
   segmentsValues[0] = tubularSegments;
   segmentsValues[1] = radialSegments;
   wireBrightnessDistance[0] = Math.max(50, vec3.length(cameraPosition.eye));
+  coloringValues[0] = life.rule.states;
+  coloringValues[1] = life.countsAges() ? 1 : 0;
+  coloringValues[2] = life.continuousRule ? 1 : 0;
 
   // Upload our uniform values.
   device.queue.writeBuffer(uniformBuffer, 0, uniformValues);
@@ -0,0 +1,125 @@
+/** Animates a change from one shape of the model to another, by
+ * interpolating the positions and normals of its vertices in a compute shader
+ * (morph.wgsl). The vertex buffer is changed in place, so everything that
+ * draws the model (and the picking for paint mode) sees the shape in between.
+ * Both shapes have to have the same grid size. */
+
+import morphWGSL from './morph.wgsl?raw';
+
+const WORKGROUP_SIZE = 64; // Must match morph.wgsl
+
+export class ShapeMorph {
+  device: GPUDevice;
+  pipeline: GPUComputePipeline;
+  uniformBuffer: GPUBuffer;
+  // While morphing, the starting vertices followed by the final ones, and the
+  // bind group that writes the mix of them to the model's vertex buffer.
+  shapesBuffer: GPUBuffer | undefined;
+  bindGroup: GPUBindGroup | undefined;
+  vertexCount = 0;
+  duration = 0; // In milliseconds
+  startTime: number | undefined; // Set by the first update
+  // How far along the morph is, from 0 to 1, with easing applied.
+  progress = 0;
+  // The shapes being morphed from and to, by name (see getSurface).
+  fromImmersion = '';
+  toImmersion = '';
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    const module = device.createShaderModule({
+      label: 'morph shader',
+      code: morphWGSL,
+    });
+    this.pipeline = device.createComputePipeline({
+      label: 'morph pipeline',
+      layout: 'auto',
+      compute: { module, entryPoint: 'morphMain' },
+    });
+    this.uniformBuffer = device.createBuffer({
+      label: 'morph uniforms',
+      size: 2 * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  get running(): boolean {
+    return this.shapesBuffer !== undefined;
+  }
+
+  /** Whether a model with this many vertices can be morphed. */
+  canMorph(vertexCount: number): boolean {
+    return Math.ceil(vertexCount / WORKGROUP_SIZE)
+      <= this.device.limits.maxComputeWorkgroupsPerDimension;
+  }
+
+  /** Starts morphing the model in `vertexBuffer` from its current shape
+   * (which may be partway through another morph) to the one in `vertices`.
+   * The morph happens as update is called. */
+  start(
+    vertexBuffer: GPUBuffer,
+    vertices: Float32Array<ArrayBuffer>,
+    fromImmersion: string,
+    toImmersion: string,
+    duration: number,
+  ) {
+    this.stop();
+    this.vertexCount = vertices.byteLength / (14 * 4);
+    this.shapesBuffer = this.device.createBuffer({
+      label: 'morph shapes',
+      size: 2 * vertices.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    const encoder = this.device.createCommandEncoder();
+    encoder.copyBufferToBuffer(vertexBuffer, 0, this.shapesBuffer, 0, vertices.byteLength);
+    this.device.queue.submit([encoder.finish()]);
+    this.device.queue.writeBuffer(this.shapesBuffer, vertices.byteLength, vertices);
+    this.bindGroup = this.device.createBindGroup({
+      label: 'morph bind group',
+      layout: this.pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: this.shapesBuffer } },
+        { binding: 2, resource: { buffer: vertexBuffer } },
+      ],
+    });
+    this.duration = duration;
+    this.startTime = undefined;
+    this.progress = 0;
+    this.fromImmersion = fromImmersion;
+    this.toImmersion = toImmersion;
+  }
+
+  /** Moves the vertices to where they should be at the given time (as passed
+   * to requestAnimationFrame callbacks). The morph ends when they reach the
+   * final shape. */
+  update(time: number) {
+    if (!this.running) {
+      return;
+    }
+    this.startTime ??= time;
+    const t = Math.min(1, (time - this.startTime) / this.duration);
+    this.progress = t * t * (3 - 2 * t); // Smoothstep, to ease in and out
+    const uniformValues = new ArrayBuffer(2 * 4);
+    new Uint32Array(uniformValues, 0, 1)[0] = this.vertexCount;
+    new Float32Array(uniformValues, 4, 1)[0] = this.progress;
+    this.device.queue.writeBuffer(this.uniformBuffer, 0, uniformValues);
+    const encoder = this.device.createCommandEncoder();
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(this.pipeline);
+    pass.setBindGroup(0, this.bindGroup!);
+    pass.dispatchWorkgroups(Math.ceil(this.vertexCount / WORKGROUP_SIZE));
+    pass.end();
+    this.device.queue.submit([encoder.finish()]);
+    if (t >= 1) {
+      this.stop();
+    }
+  }
+
+  /** Ends the morph wherever it is. */
+  stop() {
+    this.shapesBuffer?.destroy();
+    this.shapesBuffer = undefined;
+    this.bindGroup = undefined;
+  }
+}
@@ -0,0 +1,44 @@
+// Compute shader for animating a change of shape: it sets the positions and
+// normals of the model's vertices to a mix of two shapes. See morph.ts.
+
+struct Morph {
+  vertexCount: u32,
+  t: f32, // 0 for the starting shape, 1 for the final one
+};
+
+// Number of floats per vertex in the vertex buffers made by kleinBottle(). The
+// position comes first, then the normal. The rest is the same in both shapes.
+const VERTEX_STRIDE = 14u;
+
+@group(0) @binding(0) var<uniform> morph: Morph;
+// The vertices of the starting shape, followed by those of the final shape.
+@group(0) @binding(1) var<storage, read> shapes: array<f32>;
+@group(0) @binding(2) var<storage, read_write> vertices: array<f32>;
+
+fn vec3At(index: u32) -> vec3f {
+  return vec3f(shapes[index], shapes[index + 1], shapes[index + 2]);
+}
+
+@compute @workgroup_size(64)
+fn morphMain(@builtin(global_invocation_id) id: vec3u) {
+  let vertexIndex = id.x;
+  if (vertexIndex >= morph.vertexCount) {
+    return;
+  }
+  let start = vertexIndex * VERTEX_STRIDE;
+  let end = (morph.vertexCount + vertexIndex) * VERTEX_STRIDE;
+  let position = mix(vec3At(start), vec3At(end), morph.t);
+  var normal = mix(vec3At(start + 3), vec3At(end + 3), morph.t);
+  // Normals pointing in opposite directions cancel out halfway through.
+  if (length(normal) < 0.0001) {
+    normal = vec3At(end + 3);
+  } else {
+    normal = normalize(normal);
+  }
+  vertices[start] = position.x;
+  vertices[start + 1] = position.y;
+  vertices[start + 2] = position.z;
+  vertices[start + 3] = normal.x;
+  vertices[start + 4] = normal.y;
+  vertices[start + 5] = normal.z;
+}
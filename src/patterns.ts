@@ -0,0 +1,331 @@
+/** Reading and writing Life pattern files in the common formats: RLE,
+ * plaintext (.cells) and Life 1.06. See
+ * https://conwaylife.com/wiki/Category:File_formats */
+
+/** A pattern of live cells, independent of any grid. */
+export type Pattern = {
+  width: number;
+  height: number;
+  // Coordinates of the live cells, relative to the top left corner.
+  cells: [number, number][];
+  name?: string;
+  rule?: string; // Only RLE files specify a rule.
+};
+
+/** Returns the largest x and y coordinates of any of the cells, plus one, or
+ * zeros if there are no cells. (Math.max(...cells) could overflow the stack
+ * with big patterns.) */
+function extent(cells: [number, number][]): [number, number] {
+  let width = 0;
+  let height = 0;
+  for (const [x, y] of cells) {
+    width = Math.max(width, x + 1);
+    height = Math.max(height, y + 1);
+  }
+  return [width, height];
+}
+
+/** Moves the cells so that the top left corner of their bounding box is at
+ * [0, 0], and makes a Pattern of them. */
+function normalize(cells: [number, number][]): Pattern {
+  let minX = Infinity;
+  let minY = Infinity;
+  for (const [x, y] of cells) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+  }
+  const moved = cells.map(([x, y]): [number, number] => [x - minX, y - minY]);
+  const [width, height] = extent(moved);
+  return { width, height, cells: moved };
+}
+
+/** Parses a pattern in run length encoded format. Cells in any state other
+ * than dead ('b' or '.') are treated as live. */
+export function parseRLE(text: string): Pattern {
+  let name: string | undefined;
+  let rule: string | undefined;
+  let width: number | undefined;
+  let height: number | undefined;
+  const cells: [number, number][] = [];
+  let x = 0;
+  let y = 0;
+  let headerSeen = false;
+  lines:
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!headerSeen) {
+      if (line.startsWith('#N')) {
+        name = line.slice(2).trim();
+        continue;
+      }
+      if (line.startsWith('#r')) {
+        rule = line.slice(2).trim();
+        continue;
+      }
+      if (line.startsWith('#') || !line) {
+        continue;
+      }
+      if (/^x\s*=/.test(line)) {
+        headerSeen = true;
+        // The rule comes last, and can contain commas itself (e.g. Larger than
+        // Life rules).
+        const ruleMatch = /,\s*rule\s*=\s*(.*)$/.exec(line);
+        if (ruleMatch) {
+          rule = ruleMatch[1].trim();
+        }
+        for (const field of line.slice(0, ruleMatch?.index).split(',')) {
+          const [key, value] = field.split('=').map((s) => s.trim());
+          if (key === 'x') {
+            width = Number(value);
+          } else if (key === 'y') {
+            height = Number(value);
+          }
+        }
+        continue;
+      }
+      throw new Error('RLE header line ("x = ..., y = ...") is missing');
+    }
+    for (const match of line.matchAll(/(\d*)([^\d\s])/g)) {
+      const count = match[1] ? Number(match[1]) : 1;
+      const tag = match[2];
+      if (tag === '!') {
+        break lines;
+      } else if (tag === '$') {
+        x = 0;
+        y += count;
+      } else if (tag === 'b' || tag === '.') {
+        x += count;
+      } else {
+        for (let n = 0; n < count; n++) {
+          cells.push([x++, y]);
+        }
+      }
+    }
+  }
+  if (!headerSeen) {
+    throw new Error('RLE header line ("x = ..., y = ...") is missing');
+  }
+  // Keep the size from the header rather than the bounding box, so that blank
+  // space around the pattern is preserved.
+  const [cellsWidth, cellsHeight] = extent(cells);
+  return {
+    width: Math.max(width || 0, cellsWidth),
+    height: Math.max(height || 0, cellsHeight),
+    cells,
+    name,
+    rule,
+  };
+}
+
+/** Parses a pattern in plaintext (.cells) format, where each line is a row of
+ * cells, 'O' for live and '.' for dead. Lines starting with '!' are
+ * comments. */
+export function parsePlaintext(text: string): Pattern {
+  let name: string | undefined;
+  const cells: [number, number][] = [];
+  let width = 0;
+  let y = 0;
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('!')) {
+      const nameMatch = /^!\s*Name:\s*(.*)$/.exec(line);
+      if (nameMatch) {
+        name = nameMatch[1].trim();
+      }
+      continue;
+    }
+    const row = line.trimEnd();
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] === 'O' || row[x] === '*') {
+        cells.push([x, y]);
+      } else if (row[x] !== '.') {
+        throw new Error(`Unexpected character "${row[x]}" in plaintext pattern`);
+      }
+    }
+    width = Math.max(width, row.length);
+    y++;
+  }
+  // Trailing blank lines don't count towards the height.
+  const [, height] = extent(cells);
+  return { width, height, cells, name };
+}
+
+/** Parses a pattern in Life 1.06 format, which is a list of the coordinates
+ * of the live cells, one "x y" pair per line. */
+export function parseLife106(text: string): Pattern {
+  const cells: [number, number][] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const match = /^(-?\d+)\s+(-?\d+)$/.exec(line);
+    if (!match) {
+      throw new Error(`Invalid line in Life 1.06 pattern: "${line}"`);
+    }
+    cells.push([Number(match[1]), Number(match[2])]);
+  }
+  return normalize(cells);
+}
+
+/** Parses a pattern file in any of the supported formats. The format is
+ * determined by the file name extension if possible, otherwise from the
+ * contents. Throws an Error if the pattern can't be parsed. */
+export function parsePattern(text: string, fileName = ''): Pattern {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'rle') {
+    return parseRLE(text);
+  }
+  if (extension === 'cells') {
+    return parsePlaintext(text);
+  }
+  if (extension === 'lif' || extension === 'life' || text.startsWith('#Life 1.06')) {
+    return parseLife106(text);
+  }
+  if (/^\s*x\s*=/m.test(text)) {
+    return parseRLE(text);
+  }
+  return parsePlaintext(text);
+}
+
+/** Encodes a grid of cells (width * height, row by row, as stored by
+ * ToroidalLife) in RLE format. Cells in any nonzero state are written as
+ * live. */
+export function toRLE(
+  cells: ArrayLike<number>,
+  width: number,
+  height: number,
+  rule?: string,
+): string {
+  const runs: string[] = [];
+  const addRun = (count: number, tag: string) => {
+    runs.push((count > 1 ? String(count) : '') + tag);
+  };
+  // Row ends that haven't been written yet, so that consecutive ones can be
+  // merged into a single run.
+  let pendingRowEnds = 0;
+  for (let y = 0; y < height; y++) {
+    if (y > 0) {
+      pendingRowEnds++;
+    }
+    let x = 0;
+    while (x < width) {
+      const alive = Boolean(cells[y * width + x]);
+      let runLength = 1;
+      while (x + runLength < width && Boolean(cells[y * width + x + runLength]) === alive) {
+        runLength++;
+      }
+      // Dead cells at the end of a row are left out.
+      if (alive || x + runLength < width) {
+        if (pendingRowEnds) {
+          addRun(pendingRowEnds, '$');
+          pendingRowEnds = 0;
+        }
+        addRun(runLength, alive ? 'o' : 'b');
+      }
+      x += runLength;
+    }
+  }
+  runs.push('!');
+
+  // Lines in RLE files shouldn't be longer than 70 characters.
+  const lines = [`x = ${width}, y = ${height}` + (rule ? `, rule = ${rule}` : '')];
+  let line = '';
+  for (const run of runs) {
+    if (line.length + run.length > 70) {
+      lines.push(line);
+      line = '';
+    }
+    line += run;
+  }
+  lines.push(line);
+  return lines.join('\n') + '\n';
+}
+
+/** Some classic patterns, for stamping onto the grid. These are all for
+ * Conway's Life (B3/S23). */
+export const patternLibrary: Record<string, { name: string; rle: string }> = {
+  glider: { name: 'Glider', rle: 'x = 3, y = 3\nbo$2bo$3o!' },
+  lwss: { name: 'Lightweight spaceship', rle: 'x = 5, y = 4\nbo2bo$o$o3bo$4o!' },
+  mwss: { name: 'Middleweight spaceship', rle: 'x = 6, y = 5\n3bo$bo3bo$o$o4bo$5o!' },
+  hwss: { name: 'Heavyweight spaceship', rle: 'x = 7, y = 5\n3b2o$bo4bo$o$o5bo$6o!' },
+  gosper: {
+    name: 'Gosper glider gun',
+    rle: 'x = 36, y = 9\n24bo$22bobo$12b2o6b2o12b2o$11bo3bo4b2o12b2o$2o8bo5bo3b2o$'
+      + '2o8bo3bob2o4bobo$10bo5bo7bo$11bo3bo$12b2o!',
+  },
+  rpentomino: { name: 'R-pentomino', rle: 'x = 3, y = 3\nb2o$2o$bo!' },
+  acorn: { name: 'Acorn', rle: 'x = 7, y = 3\nbo$3bo$2o2b3o!' },
+  diehard: { name: 'Diehard', rle: 'x = 8, y = 3\n6bo$2o$bo3b3o!' },
+};
+
+/** Returns one of the patterns in patternLibrary. Throws an Error if there's
+ * no pattern with that key. */
+export function libraryPattern(key: string): Pattern {
+  const entry = Object.hasOwn(patternLibrary, key) ? patternLibrary[key] : undefined;
+  if (!entry) {
+    throw new Error(`Unknown pattern: "${key}"`);
+  }
+  return { ...parseRLE(entry.rle), name: entry.name };
+}
+
+/** One of the 8 symmetries of a square. The flips are applied first, then the
+ * rotation. */
+export type Transform = {
+  flipX?: boolean; // Mirror left to right
+  flipY?: boolean; // Mirror top to bottom
+  rotate?: number; // Number of quarter turns clockwise (with y pointing down)
+};
+
+/** Returns a rotated and/or reflected copy of a pattern. */
+export function transformPattern(
+  pattern: Pattern,
+  { flipX = false, flipY = false, rotate = 0 }: Transform,
+): Pattern {
+  let { width, height } = pattern;
+  let cells = pattern.cells.map(([x, y]): [number, number] => [
+    flipX ? width - 1 - x : x,
+    flipY ? height - 1 - y : y,
+  ]);
+  for (let turn = 0; turn < (((rotate % 4) + 4) % 4); turn++) {
+    cells = cells.map(([x, y]) => [height - 1 - y, x]);
+    [width, height] = [height, width];
+  }
+  return { ...pattern, width, height, cells };
+}
+
+/** Returns the pattern as it would be after running Conway's Life on an
+ * unbounded plane for the given number of generations. This is used to get
+ * the different phases of oscillators and spaceships. */
+export function advancePattern(pattern: Pattern, generations: number): Pattern {
+  if (generations <= 0) {
+    return pattern;
+  }
+  const key = (x: number, y: number) => `${x},${y}`;
+  let live = new Map(pattern.cells.map(([x, y]) => [key(x, y), [x, y] as [number, number]]));
+  for (let generation = 0; generation < generations; generation++) {
+    const neighborCounts = new Map<string, { cell: [number, number]; count: number }>();
+    for (const [x, y] of live.values()) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx || dy) {
+            const k = key(x + dx, y + dy);
+            const entry = neighborCounts.get(k);
+            if (entry) {
+              entry.count++;
+            } else {
+              neighborCounts.set(k, { cell: [x + dx, y + dy], count: 1 });
+            }
+          }
+        }
+      }
+    }
+    const next = new Map<string, [number, number]>();
+    for (const [k, { cell, count }] of neighborCounts) {
+      if (count === 3 || (count === 2 && live.has(k))) {
+        next.set(k, cell);
+      }
+    }
+    live = next;
+  }
+  return { ...normalize([...live.values()]), name: pattern.name, rule: pattern.rule };
+}
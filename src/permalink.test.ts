@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { type SharedState, decodeCells, decodeState, encodeCells, encodeState } from './permalink';
+
+describe('encodeCells', () => {
+  it('keeps every state exactly', () => {
+    const cells = new Uint32Array([0, 1, 2, 7, 0xFFFF, 0xFFFFFFFF, 0x3F000000, 0]);
+    expect(decodeCells(encodeCells(cells))).toEqual(cells);
+  });
+
+  it('survives a trip through a URL hash', async () => {
+    const cells = new Uint32Array(64 * 32).map((_, i) => (i * 2654435761) >>> 0);
+    const state: SharedState = {
+      params: { grid: '64x32', rule: '345/2/4' },
+      cells: encodeCells(cells),
+      step: 12,
+      orbit: { direction: 1, elevation: 0.5, radius: 40 },
+      ant: { enabled: false, progress: 0 },
+      settings: {},
+    };
+    const decoded = await decodeState(await encodeState(state));
+    expect(decoded).toEqual(state);
+    expect(decodeCells(decoded!.cells!)).toEqual(cells);
+  });
+});
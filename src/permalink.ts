@@ -0,0 +1,76 @@
+/** Encoding of the complete state of the app (grid contents, rule, camera and
+ * display settings) into the hash part of a URL, so it can be shared. */
+
+/** Everything needed to restore the exact view. */
+export type SharedState = {
+  // URL parameters, as read by main.ts (grid size, shape, rule, etc.).
+  params: Record<string, string>;
+  // Grid contents: RLE for rules whose cells are just live or dead, or else
+  // the exact cell states (see encodeCells).
+  rle?: string;
+  cells?: string;
+  step: number; // Generation number
+  orbit: { direction: number; elevation: number; radius: number };
+  ant: { enabled: boolean; progress: number };
+  settings: Record<string, unknown>; // The settings object in main.ts
+};
+
+const HASH_PREFIX = '#state=';
+
+async function compress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Base64 with the URL-safe alphabet and no padding. */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in chunks to avoid passing too many arguments at once.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(str: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** Encodes cell states (as in LifeSnapshot) as a string, without losing
+ * anything, for rules that have more states than live and dead (including
+ * the values of continuous rules). */
+export function encodeCells(cells: Uint32Array<ArrayBuffer>): string {
+  return toBase64Url(new Uint8Array(cells.buffer, cells.byteOffset, cells.byteLength));
+}
+
+/** Decodes cell states encoded by encodeCells. */
+export function decodeCells(text: string): Uint32Array<ArrayBuffer> {
+  return new Uint32Array(fromBase64Url(text).buffer);
+}
+
+/** Returns a URL hash (including the "#") that encodes the state. */
+export async function encodeState(state: SharedState): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(state));
+  return HASH_PREFIX + toBase64Url(await compress(json));
+}
+
+/** Decodes a URL hash created by encodeState. Returns undefined if the hash
+ * doesn't contain a state, or it can't be decoded. */
+export async function decodeState(hash: string): Promise<SharedState | undefined> {
+  if (!hash.startsWith(HASH_PREFIX)) {
+    return undefined;
+  }
+  try {
+    const json = await decompress(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+    return JSON.parse(new TextDecoder().decode(json));
+  } catch (error) {
+    console.warn(`Couldn't decode shared state from URL: ${error}`);
+    return undefined;
+  }
+}
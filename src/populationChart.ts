@@ -0,0 +1,61 @@
+/** A small chart of the population over recent generations. */
+
+import { type LifeStats } from './life';
+
+// Number of generations shown at once.
+const CHART_GENERATIONS = 500;
+
+export class PopulationChart {
+  canvas: HTMLCanvasElement;
+  // The chart only needs to be redrawn when something changes.
+  drawnKey = '';
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+  }
+
+  /** Draws the population for the most recent generations, and marks the
+   * current step (which may be earlier, after rewinding). */
+  draw(stats: LifeStats[], currentStep: number) {
+    const last = stats[stats.length - 1];
+    const key = [stats.length, last?.step, last?.population, currentStep].join();
+    if (key === this.drawnKey) {
+      return;
+    }
+    this.drawnKey = key;
+
+    const dpr = window.devicePixelRatio;
+    const width = Math.max(1, Math.floor(this.canvas.clientWidth * dpr));
+    const height = Math.max(1, Math.floor(this.canvas.clientHeight * dpr));
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    const ctx = this.canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, width, height);
+    if (!last) {
+      return;
+    }
+    const firstStep = Math.max(stats[0].step, last.step - CHART_GENERATIONS + 1);
+    const shown = stats.filter((entry) => entry.step >= firstStep);
+    const maxPopulation = Math.max(1, ...shown.map((entry) => entry.population));
+    const x = (step: number) => (step - firstStep) / Math.max(1, last.step - firstStep) * (width - 1);
+    const y = (population: number) => (height - 1) * (1 - population / maxPopulation);
+
+    if (currentStep >= firstStep && currentStep < last.step) {
+      ctx.fillStyle = '#2c3650';
+      ctx.fillRect(Math.round(x(currentStep)), 0, dpr, height);
+    }
+    ctx.strokeStyle = '#d9bf99';
+    ctx.lineWidth = dpr;
+    ctx.beginPath();
+    for (const [n, entry] of shown.entries()) {
+      if (n === 0) {
+        ctx.moveTo(x(entry.step), y(entry.population));
+      } else {
+        ctx.lineTo(x(entry.step), y(entry.population));
+      }
+    }
+    ctx.stroke();
+  }
+}
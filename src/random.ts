@@ -0,0 +1,36 @@
+/** Seedable pseudorandom numbers, so that random initial patterns can be
+ * reproduced. */
+
+/** Returns a function that generates pseudorandom numbers in [0, 1), like
+ * Math.random, always producing the same sequence for the same seed. This is
+ * the mulberry32 algorithm. */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Returns a new seed, chosen (non-reproducibly) at random. */
+export function newSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/** Converts a string to a seed. Strings of digits are used as numbers (modulo
+ * 2^32); anything else is hashed (FNV-1a), so words can be used as seeds
+ * too. */
+export function parseSeed(str: string): number {
+  const trimmed = str.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(BigInt(trimmed) % 4294967296n);
+  }
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = Math.imul(hash ^ trimmed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,245 @@
+/** Parsing of "life-like" (outer-totalistic) cellular automaton rules, written
+ * as rulestrings like "B3/S23", their multi-state "Generations" variants like
+ * "B2/S/C3", and Larger than Life rules like "R5,C0,M1,S34..58,B34..45,NM",
+ * which count the live cells in a bigger neighborhood. */
+
+/** Shapes of neighborhoods. With range r, a Moore neighborhood is the
+ * (2r + 1) x (2r + 1) square around a cell, a von Neumann neighborhood is the
+ * diamond of cells within r steps along the grid lines, and a hexagonal
+ * neighborhood treats the grid as a skewed hexagonal grid, in which the
+ * neighbors of a cell are those within r steps in the x, y or x = y
+ * directions. */
+export type Neighborhood = 'moore' | 'vonneumann' | 'hex';
+
+/** A parsed rule. `birth` lists the numbers of live neighbors that make a dead
+ * cell become alive; `survival` lists the numbers that make a live cell stay
+ * alive. `states` is the number of cell states: 2 for life-like rules. In
+ * Generations rules there are more; a live cell that doesn't survive goes
+ * through states 2, 3, ..., states - 1 (in which it doesn't count as a live
+ * neighbor and can't be born again) before it's dead. Neighbors are counted
+ * within `range` of a cell, in the given neighborhood, and if `middle` is set,
+ * a live cell counts as its own neighbor. */
+export type LifeRule = {
+  birth: number[];
+  survival: number[];
+  states: number;
+  range: number;
+  neighborhood: Neighborhood;
+  middle: boolean;
+};
+
+// Golly's limit.
+const MAX_STATES = 256;
+// The neighborhoods are looped over for every cell, so large ranges are slow.
+export const MAX_RANGE = 10;
+
+export const defaultRule = 'B3/S23';
+
+/** Some well-known rules, for the rule picker in the UI. */
+export const rulePresets: { name: string; rule: string }[] = [
+  { name: "Conway's Life", rule: 'B3/S23' },
+  { name: 'HighLife', rule: 'B36/S23' },
+  { name: 'Day & Night', rule: 'B3678/S34678' },
+  { name: 'Seeds', rule: 'B2/S' },
+  { name: 'Life without Death', rule: 'B3/S012345678' },
+  { name: 'Maze', rule: 'B3/S12345' },
+  { name: '2x2', rule: 'B36/S125' },
+  { name: 'Morley', rule: 'B368/S245' },
+  { name: 'Anneal', rule: 'B4678/S35678' },
+  { name: 'Diamoeba', rule: 'B35678/S5678' },
+  { name: "Brian's Brain", rule: 'B2/S/C3' },
+  { name: 'Star Wars', rule: 'B2/S345/C4' },
+  { name: 'Frogs', rule: 'B34/S12/C3' },
+  { name: 'Hexagonal Life', rule: 'B2/S34H' },
+  { name: "Bosco's Rule", rule: 'R5,C0,M1,S34..58,B34..45,NM' },
+  { name: 'Majority', rule: 'R4,C0,M1,S41..81,B41..81,NM' },
+  { name: 'Waffle', rule: 'R7,C0,M1,S100..200,B75..170,NM' },
+];
+
+/** Returns the number of cells in a neighborhood, not counting the cell in
+ * the middle. */
+export function neighborhoodSize(neighborhood: Neighborhood, range: number): number {
+  switch (neighborhood) {
+    case 'moore':
+      return (2 * range + 1) ** 2 - 1;
+    case 'vonneumann':
+      return 2 * range * (range + 1);
+    case 'hex':
+      return 3 * range * (range + 1);
+  }
+}
+
+/** Returns true if the offset (dx, dy) from a cell is within its
+ * neighborhood. This must match inNeighborhood in life.wgsl. */
+export function inNeighborhood(rule: LifeRule, dx: number, dy: number): boolean {
+  const r = rule.range;
+  switch (rule.neighborhood) {
+    case 'moore':
+      return Math.abs(dx) <= r && Math.abs(dy) <= r;
+    case 'vonneumann':
+      return Math.abs(dx) + Math.abs(dy) <= r;
+    case 'hex':
+      return Math.abs(dx) <= r && Math.abs(dy) <= r && Math.abs(dx - dy) <= r;
+  }
+}
+
+/** Converts a string of digits like "23" to a list of counts like [2, 3].
+ * Returns undefined if there's anything other than the digits 0 to `max` in
+ * the string. */
+function digitsToCounts(digits: string, max: number): number[] | undefined {
+  const counts = new Set<number>();
+  for (const digit of digits) {
+    if (digit < '0' || digit > '9' || Number(digit) > max) {
+      return undefined;
+    }
+    counts.add(Number(digit));
+  }
+  return [...counts].sort((a, b) => a - b);
+}
+
+/** Converts a comma-separated list of counts and ranges of counts, like
+ * "34..45" or "2,4-6", to a list of counts. Returns undefined if it's not
+ * valid or has counts above `max`. */
+function rangesToCounts(ranges: string, max: number): number[] | undefined {
+  const counts = new Set<number>();
+  for (const range of ranges.split(',').filter((s) => s)) {
+    const match = /^(\d+)(?:(?:\.\.|-)(\d+))?$/.exec(range);
+    if (!match) {
+      return undefined;
+    }
+    const low = Number(match[1]);
+    const high = Number(match[2] ?? match[1]);
+    if (high < low || high > max) {
+      return undefined;
+    }
+    for (let n = low; n <= high; n++) {
+      counts.add(n);
+    }
+  }
+  return [...counts].sort((a, b) => a - b);
+}
+
+/** Converts a list of counts to ranges, like "34..45" or "2,4..6". */
+function countsToRanges(counts: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < counts.length; i++) {
+    const low = counts[i];
+    while (i + 1 < counts.length && counts[i + 1] === counts[i] + 1) {
+      i++;
+    }
+    ranges.push(low === counts[i] ? String(low) : `${low}..${counts[i]}`);
+  }
+  return ranges.join(',');
+}
+
+const neighborhoodLetters: Record<string, Neighborhood> = {
+  M: 'moore',
+  N: 'vonneumann',
+  H: 'hex',
+};
+
+/** Parses a Larger than Life rulestring in Golly's format, e.g.
+ * "R5,C0,M1,S34..58,B34..45,NM". The S and B values can also be lists like
+ * "2,4-6", as in Golly's HROT rules. Returns undefined if it's not in that
+ * format. */
+function parseLargerThanLife(str: string): LifeRule | undefined {
+  if (!/^R\d/.test(str)) {
+    return undefined;
+  }
+  // The neighborhood is a letter, so it has to be separated from the fields
+  // before they're split up.
+  let neighborhoodLetter = 'M';
+  const neighborhoodMatch = /,N([A-Z])$/.exec(str);
+  if (neighborhoodMatch) {
+    neighborhoodLetter = neighborhoodMatch[1];
+    str = str.slice(0, neighborhoodMatch.index);
+  }
+  // Values of S and B can contain commas, so fields start at the letters.
+  const fields = new Map<string, string>();
+  for (const match of str.matchAll(/([A-Z])([^A-Z]*)/g)) {
+    if (fields.has(match[1])) {
+      return undefined;
+    }
+    fields.set(match[1], match[2].replace(/^,|,$/g, ''));
+  }
+  const range = Number(fields.get('R'));
+  const states = Math.max(2, Number(fields.get('C') || 0));
+  const middle = fields.get('M') === '1';
+  const neighborhood = neighborhoodLetters[neighborhoodLetter];
+  if (
+    !Number.isInteger(range) || range < 1 || range > MAX_RANGE
+    || !fields.has('S') || !fields.has('B') || !neighborhood
+    || [...fields.keys()].some((key) => !'RCMSB'.includes(key))
+  ) {
+    return undefined;
+  }
+  const max = neighborhoodSize(neighborhood, range) + (middle ? 1 : 0);
+  const survival = rangesToCounts(fields.get('S')!, max);
+  const birth = rangesToCounts(fields.get('B')!, max);
+  if (!survival || !birth || !Number.isInteger(states) || states > MAX_STATES) {
+    return undefined;
+  }
+  return { birth, survival, states, range, neighborhood, middle };
+}
+
+/** Parses a rulestring in either B/S notation ("B36/S23") or the older S/B
+ * notation ("23/36"). Generations rules have the number of states at the end
+ * ("B2/S/C3", or "/2/3" in the older notation), and a final H or V selects
+ * the hexagonal or von Neumann neighborhood ("B2/S34H"). Larger than Life
+ * rules are also accepted (see parseLargerThanLife). Case and whitespace are
+ * ignored. Throws an Error if the string can't be parsed. */
+export function parseRule(rulestring: string): LifeRule {
+  let str = rulestring.replace(/\s/g, '').toUpperCase();
+  const largerThanLife = parseLargerThanLife(str);
+  if (largerThanLife) {
+    return largerThanLife;
+  }
+  let neighborhood: Neighborhood = 'moore';
+  if (str.endsWith('H') || str.endsWith('V')) {
+    neighborhood = str.endsWith('H') ? 'hex' : 'vonneumann';
+    str = str.slice(0, -1);
+  }
+  let states = 2;
+  const statesMatch = /\/C?(\d+)$/.exec(str);
+  if (statesMatch && (/C/.test(statesMatch[0]) || str.split('/').length === 3)) {
+    states = Number(statesMatch[1]);
+    str = str.slice(0, statesMatch.index);
+  }
+  let match = /^B(\d*)\/?S(\d*)$/.exec(str) || /^S(\d*)\/?B(\d*)$/.exec(str);
+  let birthDigits: string | undefined;
+  let survivalDigits: string | undefined;
+  if (match) {
+    [birthDigits, survivalDigits] = str.startsWith('B')
+      ? [match[1], match[2]]
+      : [match[2], match[1]];
+  } else if ((match = /^(\d*)\/(\d*)$/.exec(str))) {
+    [survivalDigits, birthDigits] = [match[1], match[2]];
+  }
+  const max = neighborhoodSize(neighborhood, 1);
+  const birth = digitsToCounts(birthDigits ?? 'x', max);
+  const survival = digitsToCounts(survivalDigits ?? 'x', max);
+  if (birth === undefined || survival === undefined || states < 2 || states > MAX_STATES) {
+    throw new Error(`Invalid rule: "${rulestring}"`);
+  }
+  return { birth, survival, states, range: 1, neighborhood, middle: false };
+}
+
+/** Converts a rule to canonical notation: B/S, with "/C" and the number of
+ * states for Generations rules and H or V for other neighborhoods, if
+ * possible, otherwise Larger than Life notation. */
+export function ruleToString(rule: LifeRule): string {
+  if (rule.range === 1 && !rule.middle) {
+    const letter = { moore: '', vonneumann: 'V', hex: 'H' }[rule.neighborhood];
+    const bs = `B${rule.birth.join('')}/S${rule.survival.join('')}`;
+    return (rule.states > 2 ? `${bs}/C${rule.states}` : bs) + letter;
+  }
+  const letter = { moore: 'M', vonneumann: 'N', hex: 'H' }[rule.neighborhood];
+  return [
+    `R${rule.range}`,
+    `C${rule.states > 2 ? rule.states : 0}`,
+    `M${rule.middle ? 1 : 0}`,
+    `S${countsToRanges(rule.survival)}`,
+    `B${countsToRanges(rule.birth)}`,
+    `N${letter}`,
+  ].join(',');
+}
@@ -11,6 +11,15 @@ struct Uniforms {
   worldMatrix: mat4x4f,
   tubularSegments: u32,
   radialSegments: u32,
+  // Used only by the wireframe shaders.
+  wireBrightnessDistance: f32,
+  bcwWidth: f32,
+  bcwAlphaThreshold: f32,
+  // Number of states of the Life rule, whether the states of live cells are
+  // ages, and whether cells have continuous values (see life.wgsl).
+  states: u32,
+  ageMode: u32,
+  continuous: u32,
 };
 
 struct Vertex {
@@ -44,6 +53,8 @@ struct VSIn {
 
 @group(0) @binding(0) var<uniform> uni: Uniforms;
 
+const MIN_VISIBLE_VALUE = 0.02;
+
 @group(1) @binding(0) var<storage> cellStates: array<u32>;
 
 @vertex fn vs(vin: Vertex) -> VSOut {
@@ -57,18 +68,50 @@ struct VSIn {
   return vOut;
 }
 
+// Adjusts the color of a cell according to its state. In age mode, newborn
+// cells are pale yellow, fading to the usual color as they get older. Dying
+// cells of Generations rules fade to dark blue, and so do cells of continuous
+// rules with low values.
+fn cellColor(color: vec3f, state: u32) -> vec3f {
+  if (uni.continuous != 0) {
+    return mix(vec3f(0.1, 0.15, 0.4), color, bitcast<f32>(state));
+  }
+  if (uni.ageMode != 0) {
+    return mix(vec3f(1, 0.95, 0.7), color, 1 - exp(-f32(state - 1) / 16));
+  }
+  if (state >= 2 && state < uni.states) {
+    let dying = f32(state - 1) / f32(uni.states - 1);
+    return mix(color * 0.8, vec3f(0.1, 0.15, 0.4), dying);
+  }
+  return color;
+}
+
 @fragment fn fs(vin: VSIn) -> @location(0) vec4f {
   let cellIndex = u32(vin.radial_coord) * uni.tubularSegments + u32(vin.tubular_coord);
-  if (cellStates[cellIndex] == 0) {
+  let state = cellStates[cellIndex];
+  // Cells of continuous rules are hardly ever exactly 0, so hide the ones
+  // that are nearly 0.
+  if (state == 0 || (uni.continuous != 0 && bitcast<f32>(state) < MIN_VISIBLE_VALUE)) {
     discard;
   }
   let lightDirection = normalize(vec3f(4, 10, 6));
   if (vin.is_front) {
     let light = dot(normalize(vin.normal), lightDirection) * 0.45 + 0.65;
-    return vec4f(vin.front_color * light, 1.0);
+    return vec4f(cellColor(vin.front_color, state) * light, 1.0);
   } else {
   // Reverse the normal for back faces so they look the same as front faces.
     let light = dot(normalize(-vin.normal), lightDirection) * 0.45 + 0.65;
-    return vec4f(vin.back_color * light, 1.0);
+    return vec4f(cellColor(vin.back_color, state) * light, 1.0);
   }
 }
+
+// Fragment shader used for picking the cell under the mouse. Instead of a
+// color, it outputs the index of the cell plus 1 (so 0 means no cell) and the
+// cell's state.
+@fragment fn fsPick(vin: VSIn) -> @location(0) vec2u {
+  // The coordinates can be exactly at the far edge of the last cell.
+  let tubular = min(u32(vin.tubular_coord), uni.tubularSegments - 1);
+  let radial = min(u32(vin.radial_coord), uni.radialSegments - 1);
+  let cellIndex = radial * uni.tubularSegments + tubular;
+  return vec2u(cellIndex + 1, cellStates[cellIndex]);
+}
@@ -0,0 +1,117 @@
+/** The different ways the edges of the Life grid can be glued together. The
+ * shapes (immersions) that can be used to draw each of them are listed with
+ * the surfaces in kleinBottle.ts. */
+
+export type Topology =
+  | 'klein' // Klein bottle, twisted in the x direction
+  | 'kleiny' // Klein bottle, twisted in the y direction
+  | 'torus'
+  | 'projective' // Real projective plane (twisted in both directions)
+  | 'cylinder' // Wraps in the y direction; dead cells beyond the x edges
+  | 'mobius'; // Twisted in the x direction; dead cells beyond the y edges
+
+// Flags describing how each topology glues the edges. These must match the
+// constants in life.wgsl.
+const X_WRAPS = 1; // Cells beyond the left/right edges wrap around.
+const X_FLIPS_Y = 2; // Wrapping around in x inverts y.
+const Y_WRAPS = 4; // Cells beyond the top/bottom edges wrap around.
+const Y_FLIPS_X = 8; // Wrapping around in y inverts x.
+// Inverting y maps y to height / 2 - 1 - y instead of height - 1 - y. The
+// bottle-shaped immersions in kleinBottle.ts need this; see the comment in
+// kleinBottleFigure8.
+const HALF_FLIP = 16;
+
+export const topologies: { name: Topology; label: string; flags: number }[] = [
+  { name: 'klein', label: 'Klein bottle', flags: X_WRAPS | X_FLIPS_Y | HALF_FLIP | Y_WRAPS },
+  { name: 'kleiny', label: 'Klein bottle (twisted in y)', flags: X_WRAPS | Y_WRAPS | Y_FLIPS_X },
+  { name: 'torus', label: 'Torus', flags: X_WRAPS | Y_WRAPS },
+  { name: 'projective', label: 'Projective plane', flags: X_WRAPS | X_FLIPS_Y | Y_WRAPS | Y_FLIPS_X },
+  { name: 'cylinder', label: 'Cylinder', flags: Y_WRAPS },
+  { name: 'mobius', label: 'Möbius strip', flags: X_WRAPS | X_FLIPS_Y },
+];
+
+/** Returns the topology with the given name. Throws an Error if there isn't
+ * one. */
+export function parseTopology(name: string): Topology {
+  const topology = topologies.find((t) => t.name === name.toLowerCase());
+  if (!topology) {
+    throw new Error(`Unknown topology: "${name}"`);
+  }
+  return topology.name;
+}
+
+/** Returns the flags describing the topology, as used by life.wgsl. */
+export function topologyFlags(topology: Topology): number {
+  return topologies.find((t) => t.name === topology)!.flags;
+}
+
+/** Describes how one pair of opposite edges of the grid is glued together. */
+export type EdgeGluing = {
+  glued: boolean; // If false, cells beyond these edges are dead.
+  flipped: boolean; // Crossing these edges inverts the other coordinate.
+  // The inversion is y -> height / 2 - 1 - y rather than height - 1 - y. This
+  // flips each half of the edge separately.
+  halfFlip: boolean;
+};
+
+/** Describes how the left/right edges (x) and top/bottom edges (y) of the
+ * grid are glued together in a topology. */
+export function edgeGluing(topology: Topology): { x: EdgeGluing; y: EdgeGluing } {
+  const flags = topologyFlags(topology);
+  return {
+    x: {
+      glued: Boolean(flags & X_WRAPS),
+      flipped: Boolean(flags & X_FLIPS_Y),
+      halfFlip: Boolean(flags & HALF_FLIP),
+    },
+    y: {
+      glued: Boolean(flags & Y_WRAPS),
+      flipped: Boolean(flags & Y_FLIPS_X),
+      halfFlip: false,
+    },
+  };
+}
+
+/** Modulo that always returns a result in [0, n), even for negative a. */
+function mod(a: number, n: number): number {
+  return ((a % n) + n) % n;
+}
+
+/** Maps cell coordinates that may lie outside the grid (including negative
+ * ones) to the coordinates of the cell they're glued to. Returns undefined if
+ * the coordinates are beyond an edge that isn't glued to anything. This must
+ * match wrapCell in life.wgsl. */
+export function wrapCell(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  topology: Topology,
+): [number, number] | undefined {
+  const flags = topologyFlags(topology);
+  // Handle the x direction first. Wrapping around in x can change y, but y is
+  // dealt with afterwards anyway.
+  const xLaps = Math.floor(x / width);
+  if (xLaps !== 0) {
+    if (!(flags & X_WRAPS)) {
+      return undefined;
+    }
+    x -= xLaps * width;
+    if ((flags & X_FLIPS_Y) && (xLaps & 1)) {
+      y = ((flags & HALF_FLIP) ? height / 2 : height) - 1 - y;
+    }
+  }
+  // Inverting x here leaves it in range, so we don't have to go back and
+  // handle the x direction again.
+  const yLaps = Math.floor(y / height);
+  if (yLaps !== 0) {
+    if (!(flags & Y_WRAPS)) {
+      return undefined;
+    }
+    y = mod(y, height);
+    if ((flags & Y_FLIPS_X) && (yLaps & 1)) {
+      x = width - 1 - x;
+    }
+  }
+  return [x, y];
+}
@@ -2,4 +2,13 @@ import { defineConfig } from 'vite';
 
 export default defineConfig({
   base: '',
-});
\ No newline at end of file
+  build: {
+    rollupOptions: {
+      // The main page, and the one for batch experiments.
+      input: {
+        main: 'index.html',
+        batch: 'batch.html',
+      },
+    },
+  },
+});